@@ -10,6 +10,7 @@ import UploadPage from "./pages/Upload";
 import ConfigurePage from "./pages/Configure";
 import AnalyzePage from "./pages/Analyze";
 import ResultsPage from "./pages/Results";
+import ProjectsPage from "./pages/Projects";
 
 function Router() {
   return (
@@ -19,6 +20,7 @@ function Router() {
         <Route path={"/configure"} component={ConfigurePage} />
         <Route path={"/analyze"} component={AnalyzePage} />
         <Route path={"/results"} component={ResultsPage} />
+        <Route path={"/projects"} component={ProjectsPage} />
         <Route path={"/404"} component={NotFound} />
         <Route component={NotFound} />
       </Switch>
@@ -0,0 +1,239 @@
+/**
+ * Design Philosophy: Formal Minimal
+ * - Every export of the current analysis in one card
+ * - Format picked next to the export button
+ */
+
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Card } from "@/components/ui/card";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { toast } from "sonner";
+import { Download, FileSpreadsheet } from "lucide-react";
+import { useProject } from "@/contexts/ProjectContext";
+import {
+  downloadFile,
+  exportMultipleSheetsToExcel,
+  exportWithVariationLabels,
+} from "@/lib/excelUtils";
+import {
+  buildLongFormatRows,
+  buildResultsSheet,
+  buildSpecSheets,
+  buildSummarySheet,
+  RESULT_EXPORT_FORMATS,
+  type ResultExportFormat,
+} from "@shared/exportUtils";
+import {
+  toDelimitedText,
+  WorkbookError,
+  type WorkbookAnalysis,
+} from "@shared/workbookUtils";
+import type { VariationAnalysis } from "@shared/types";
+
+interface ExportPanelProps {
+  analysis: VariationAnalysis;
+  activeGroupId: number;
+}
+
+export default function ExportPanel({
+  analysis,
+  activeGroupId,
+}: ExportPanelProps) {
+  const { state } = useProject();
+  const [exporting, setExporting] = useState(false);
+  const [format, setFormat] = useState<ResultExportFormat>("xlsx");
+  const [fillLabelColors, setFillLabelColors] = useState(true);
+  const [labelRowsText, setLabelRowsText] = useState("");
+
+  // Labels are written back into .xlsx only: the round trip drops macros
+  const writeBackSource =
+    state.sourceWorkbook && /\.xlsx$/i.test(state.sourceWorkbook.fileName)
+      ? state.sourceWorkbook
+      : null;
+
+  const runExport = async (
+    exportFn: () => Promise<string>,
+    failureMessage: string = "Export failed"
+  ) => {
+    setExporting(true);
+
+    try {
+      const filename = await exportFn();
+      toast.success(`Exported: ${filename}`);
+    } catch (error) {
+      toast.error(
+        error instanceof WorkbookError
+          ? `${failureMessage}: ${error.message}`
+          : failureMessage
+      );
+      console.error(error);
+    } finally {
+      setExporting(false);
+    }
+  };
+
+  const handleExportResults = () =>
+    runExport(async () => {
+      const filename = `variation_results.${format}`;
+
+      if (format === "xlsx") {
+        await exportMultipleSheetsToExcel(
+          [
+            buildResultsSheet(analysis, {
+              vocabulary: state.configuration?.cellVocabulary,
+              activeGroupId,
+            }),
+            buildSummarySheet(analysis),
+          ],
+          filename
+        );
+      } else if (format === "json") {
+        const result: WorkbookAnalysis = {
+          sheetName: state.importedData?.sheetName || "",
+          layout: {
+            featureColumn: state.configuration?.featureColumn || "",
+            itemColumn: state.configuration?.itemColumn || "",
+            startRow: state.configuration?.startRow || 0,
+            startDataColumn: state.configuration?.startDataColumn || "",
+          },
+          analysis,
+        };
+        downloadFile(
+          JSON.stringify(result, null, 2),
+          filename,
+          "application/json"
+        );
+      } else {
+        downloadFile(
+          toDelimitedText(
+            buildLongFormatRows(analysis),
+            format === "tsv" ? "\t" : ","
+          ),
+          filename,
+          format === "tsv" ? "text/tab-separated-values" : "text/csv"
+        );
+      }
+
+      return filename;
+    });
+
+  const handleExportSpecs = () =>
+    runExport(async () => {
+      await exportMultipleSheetsToExcel(
+        buildSpecSheets(analysis, activeGroupId),
+        "variation_specs.xlsx"
+      );
+      return "variation_specs.xlsx";
+    });
+
+  const handleWriteToOriginal = () =>
+    runExport(async () => {
+      if (!state.configuration || !writeBackSource) {
+        throw new Error("Original workbook not available");
+      }
+
+      // Blank picks rows automatically
+      const labelRows = labelRowsText
+        .split(",")
+        .map((part) => part.trim())
+        .filter((part) => part !== "")
+        .map(Number);
+
+      return exportWithVariationLabels(writeBackSource, analysis, {
+        sheetName: state.importedData?.sheetName || "F-List",
+        featureColumn: state.configuration.featureColumn,
+        startRow: state.configuration.startRow,
+        labelRows: labelRows.length > 0 ? labelRows : undefined,
+        fillColors: fillLabelColors,
+      });
+    }, "Failed to write labels into the original workbook");
+
+  return (
+    <Card className="p-6">
+      <h3 className="font-semibold text-foreground mb-4">Export Results</h3>
+      <div className="flex gap-3">
+        <Select
+          value={format}
+          onValueChange={(value) => setFormat(value as ResultExportFormat)}
+        >
+          <SelectTrigger className="w-48">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {RESULT_EXPORT_FORMATS.map(({ format, title }) => (
+              <SelectItem key={format} value={format}>
+                {title}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Button
+          className="flex-1"
+          onClick={handleExportResults}
+          disabled={exporting}
+        >
+          <Download className="w-4 h-4 mr-2" />
+          {exporting ? "Exporting..." : "Export"}
+        </Button>
+      </div>
+      <Button
+        variant="outline"
+        className="w-full mt-3"
+        onClick={handleExportSpecs}
+        disabled={exporting}
+      >
+        <Download className="w-4 h-4 mr-2" />
+        Export Spec Sheet per Variation
+      </Button>
+      {writeBackSource && (
+        <div className="mt-4 pt-4 border-t border-border space-y-3">
+          <p className="text-sm text-muted-foreground">
+            Fill a Variation row above the data in a copy of{" "}
+            {writeBackSource.fileName}, keeping other sheets, cells and
+            formulas. Charts and pivot tables are not kept. Uses a row already
+            titled Variation, else the nearest empty row.
+          </p>
+          <div className="flex items-center gap-3">
+            <label className="text-sm text-foreground whitespace-nowrap">
+              Label row
+            </label>
+            <Input
+              value={labelRowsText}
+              onChange={(e) => setLabelRowsText(e.target.value)}
+              placeholder={
+                analysis.groups.length > 1
+                  ? "Automatic, or one row per group, e.g. 16, 17"
+                  : "Automatic, or a row number, e.g. 17"
+              }
+            />
+          </div>
+          <label className="flex items-center gap-2 text-sm text-foreground">
+            <Checkbox
+              checked={fillLabelColors}
+              onCheckedChange={(checked) => setFillLabelColors(!!checked)}
+            />
+            Fill label cells with variation colors
+          </label>
+          <Button
+            variant="outline"
+            className="w-full"
+            onClick={handleWriteToOriginal}
+            disabled={exporting}
+          >
+            <FileSpreadsheet className="w-4 h-4 mr-2" />
+            Write Labels to Original
+          </Button>
+        </div>
+      )}
+    </Card>
+  );
+}
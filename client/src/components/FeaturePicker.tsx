@@ -0,0 +1,331 @@
+/**
+ * Design Philosophy: Formal Minimal
+ * - Every feature reachable, grouped with its items
+ * - Only visible rows rendered, fixed row height
+ * - Keyboard navigation over the flattened tree
+ */
+
+import {
+  useEffect,
+  useMemo,
+  useRef,
+  useState,
+  type KeyboardEvent,
+} from "react";
+import { Checkbox } from "@/components/ui/checkbox";
+import { ChevronDown, ChevronRight } from "lucide-react";
+import type { Feature, VariationGroupConfig } from "@shared/types";
+
+const ROW_HEIGHT = 32;
+const VIEWPORT_HEIGHT = 384;
+const OVERSCAN = 8;
+
+type PickerRow =
+  | {
+      type: "feature";
+      feature: Feature;
+      items: Feature["items"];
+      expanded: boolean;
+    }
+  | { type: "item"; feature: Feature; itemName: string };
+
+interface FeaturePickerProps {
+  features: Feature[];
+  selectedFeatures: VariationGroupConfig["selectedFeatures"];
+  searchQuery: string;
+  onToggleFeature: (featureName: string) => void;
+  onToggleItem: (featureName: string, itemName: string) => void;
+  onSelectAllItems: (featureName: string) => void;
+  onDeselectAllItems: (featureName: string) => void;
+}
+
+export default function FeaturePicker({
+  features,
+  selectedFeatures,
+  searchQuery,
+  onToggleFeature,
+  onToggleItem,
+  onSelectAllItems,
+  onDeselectAllItems,
+}: FeaturePickerProps) {
+  const viewportRef = useRef<HTMLDivElement>(null);
+  const [scrollTop, setScrollTop] = useState(0);
+  const [activeIndex, setActiveIndex] = useState(0);
+  const [onlySelected, setOnlySelected] = useState(false);
+  // Explicit expand/collapse, overriding the default per feature
+  const [expandOverrides, setExpandOverrides] = useState<
+    Record<string, boolean>
+  >({});
+
+  // Features shown, with the items that match the search
+  const visibleFeatures = useMemo(() => {
+    const query = searchQuery.trim().toLowerCase();
+    const result: Array<{
+      feature: Feature;
+      items: Feature["items"];
+      itemMatched: boolean;
+    }> = [];
+
+    for (const feature of features) {
+      if (onlySelected && !selectedFeatures[feature.name]) continue;
+
+      if (!query || feature.name.toLowerCase().includes(query)) {
+        result.push({ feature, items: feature.items, itemMatched: false });
+        continue;
+      }
+
+      const items = feature.items.filter((item) =>
+        item.name.toLowerCase().includes(query)
+      );
+      if (items.length > 0) {
+        result.push({ feature, items, itemMatched: true });
+      }
+    }
+
+    return result;
+  }, [features, searchQuery, onlySelected, selectedFeatures]);
+
+  // Flattened tree; selected features and item matches open by default
+  const rows = useMemo(() => {
+    const result: PickerRow[] = [];
+    for (const { feature, items, itemMatched } of visibleFeatures) {
+      const expanded =
+        expandOverrides[feature.name] ??
+        (itemMatched || !!selectedFeatures[feature.name]);
+      result.push({ type: "feature", feature, items, expanded });
+      if (!expanded) continue;
+      for (const item of items) {
+        result.push({ type: "item", feature, itemName: item.name });
+      }
+    }
+    return result;
+  }, [visibleFeatures, expandOverrides, selectedFeatures]);
+
+  useEffect(() => {
+    if (activeIndex >= rows.length) {
+      setActiveIndex(Math.max(0, rows.length - 1));
+    }
+  }, [rows.length, activeIndex]);
+
+  const firstRow = Math.max(0, Math.floor(scrollTop / ROW_HEIGHT) - OVERSCAN);
+  const lastRow = Math.min(
+    rows.length,
+    Math.ceil((scrollTop + VIEWPORT_HEIGHT) / ROW_HEIGHT) + OVERSCAN
+  );
+
+  const setExpanded = (featureName: string, expanded: boolean) => {
+    setExpandOverrides((prev) => ({ ...prev, [featureName]: expanded }));
+  };
+
+  // Move the active row and keep it inside the viewport
+  const focusRow = (index: number) => {
+    const next = Math.min(Math.max(index, 0), rows.length - 1);
+    setActiveIndex(next);
+
+    const viewport = viewportRef.current;
+    if (!viewport) return;
+    const top = next * ROW_HEIGHT;
+    if (top < viewport.scrollTop) {
+      viewport.scrollTop = top;
+    } else if (top + ROW_HEIGHT > viewport.scrollTop + viewport.clientHeight) {
+      viewport.scrollTop = top + ROW_HEIGHT - viewport.clientHeight;
+    }
+  };
+
+  const toggleRow = (row: PickerRow) => {
+    if (row.type === "feature") {
+      onToggleFeature(row.feature.name);
+    } else {
+      onToggleItem(row.feature.name, row.itemName);
+    }
+  };
+
+  const handleKeyDown = (event: KeyboardEvent<HTMLDivElement>) => {
+    const row = rows[activeIndex];
+    if (!row) return;
+    const pageSize = Math.floor(VIEWPORT_HEIGHT / ROW_HEIGHT);
+
+    switch (event.key) {
+      case "ArrowDown":
+        focusRow(activeIndex + 1);
+        break;
+      case "ArrowUp":
+        focusRow(activeIndex - 1);
+        break;
+      case "PageDown":
+        focusRow(activeIndex + pageSize);
+        break;
+      case "PageUp":
+        focusRow(activeIndex - pageSize);
+        break;
+      case "Home":
+        focusRow(0);
+        break;
+      case "End":
+        focusRow(rows.length - 1);
+        break;
+      case "ArrowRight":
+        if (row.type === "feature" && !row.expanded) {
+          setExpanded(row.feature.name, true);
+        } else {
+          focusRow(activeIndex + 1);
+        }
+        break;
+      case "ArrowLeft":
+        if (row.type === "feature") {
+          if (row.expanded) setExpanded(row.feature.name, false);
+        } else {
+          // Jump to the owning feature
+          let index = activeIndex;
+          while (index > 0 && rows[index].type === "item") index--;
+          focusRow(index);
+        }
+        break;
+      case "Enter":
+        if (row.type === "feature") {
+          setExpanded(row.feature.name, !row.expanded);
+        } else {
+          toggleRow(row);
+        }
+        break;
+      case " ":
+        toggleRow(row);
+        break;
+      default:
+        return;
+    }
+    event.preventDefault();
+  };
+
+  const selectedCount = Object.keys(selectedFeatures).length;
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between gap-3">
+        <p className="text-sm font-medium text-muted-foreground">
+          Available Features ({visibleFeatures.length} of {features.length})
+        </p>
+        <label className="flex items-center gap-2 text-sm text-foreground">
+          <Checkbox
+            checked={onlySelected}
+            onCheckedChange={(checked) => setOnlySelected(!!checked)}
+          />
+          Show only selected ({selectedCount})
+        </label>
+      </div>
+
+      {rows.length === 0 ? (
+        <p className="text-sm text-muted-foreground italic">
+          No features found
+        </p>
+      ) : (
+        <div
+          ref={viewportRef}
+          role="tree"
+          tabIndex={0}
+          aria-activedescendant={`feature-row-${activeIndex}`}
+          onKeyDown={handleKeyDown}
+          onScroll={(e) => setScrollTop(e.currentTarget.scrollTop)}
+          className="overflow-y-auto border border-border rounded-lg bg-background/50 focus:outline-none focus-visible:ring-2 focus-visible:ring-primary/50"
+          style={{ maxHeight: VIEWPORT_HEIGHT }}
+        >
+          <div
+            className="relative"
+            style={{ height: rows.length * ROW_HEIGHT }}
+          >
+            {rows.slice(firstRow, lastRow).map((row, offset) => {
+              const index = firstRow + offset;
+              const isActive = index === activeIndex;
+              const selectedItems = selectedFeatures[row.feature.name];
+              const rowClass = `absolute inset-x-0 flex items-center gap-2 px-3 text-sm ${
+                isActive ? "bg-primary/10" : "hover:bg-muted/50"
+              }`;
+              const rowStyle = { top: index * ROW_HEIGHT, height: ROW_HEIGHT };
+
+              if (row.type === "item") {
+                const checked = !!selectedItems?.includes(row.itemName);
+                return (
+                  <div
+                    key={`${row.feature.name}\u0000${row.itemName}`}
+                    id={`feature-row-${index}`}
+                    role="treeitem"
+                    aria-level={2}
+                    aria-selected={checked}
+                    className={`${rowClass} pl-12`}
+                    style={rowStyle}
+                    onClick={() => setActiveIndex(index)}
+                  >
+                    <Checkbox
+                      tabIndex={-1}
+                      checked={checked}
+                      onCheckedChange={() => toggleRow(row)}
+                      className="w-3 h-3"
+                    />
+                    <span className="truncate text-xs text-foreground">
+                      {row.itemName}
+                    </span>
+                  </div>
+                );
+              }
+
+              const Chevron = row.expanded ? ChevronDown : ChevronRight;
+              return (
+                <div
+                  key={row.feature.name}
+                  id={`feature-row-${index}`}
+                  role="treeitem"
+                  aria-level={1}
+                  aria-expanded={row.expanded}
+                  aria-selected={!!selectedItems}
+                  className={rowClass}
+                  style={rowStyle}
+                  onClick={() => setActiveIndex(index)}
+                >
+                  <button
+                    tabIndex={-1}
+                    onClick={() => setExpanded(row.feature.name, !row.expanded)}
+                    className="text-muted-foreground hover:text-foreground"
+                    aria-label={row.expanded ? "Collapse" : "Expand"}
+                  >
+                    <Chevron className="w-4 h-4" />
+                  </button>
+                  <Checkbox
+                    tabIndex={-1}
+                    checked={!!selectedItems}
+                    onCheckedChange={() => toggleRow(row)}
+                  />
+                  <span className="flex-1 truncate font-medium text-foreground">
+                    {row.feature.name}
+                  </span>
+                  {selectedItems && (
+                    <span className="flex gap-2 text-xs">
+                      <button
+                        tabIndex={-1}
+                        onClick={() => onSelectAllItems(row.feature.name)}
+                        className="text-primary hover:underline"
+                      >
+                        All
+                      </button>
+                      <button
+                        tabIndex={-1}
+                        onClick={() => onDeselectAllItems(row.feature.name)}
+                        className="text-primary hover:underline"
+                      >
+                        None
+                      </button>
+                    </span>
+                  )}
+                  <span className="text-xs text-muted-foreground tabular-nums">
+                    {selectedItems
+                      ? `${selectedItems.length}/${row.feature.items.length}`
+                      : row.feature.items.length}
+                  </span>
+                </div>
+              );
+            })}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,118 @@
+/**
+ * Design Philosophy: Formal Minimal
+ * - Live outcome of the active group's selection
+ * - Variation count, sizes and a strip of grade columns
+ */
+
+import { useMemo } from "react";
+import { Card } from "@/components/ui/card";
+import type {
+  LabelStyle,
+  VariationGroupConfig,
+  VariationPattern,
+} from "@shared/types";
+import {
+  indexToColumnLetter,
+  partitionGroup,
+  type FeatureMatrix,
+} from "@shared/variationUtils";
+
+interface PartitionPreviewProps {
+  matrix: FeatureMatrix | null;
+  group: VariationGroupConfig;
+  labelStyle: LabelStyle;
+}
+
+export default function PartitionPreview({
+  matrix,
+  group,
+  labelStyle,
+}: PartitionPreviewProps) {
+  const partition = useMemo(
+    () => (matrix ? partitionGroup(matrix, group, labelStyle) : null),
+    [matrix, group, labelStyle]
+  );
+
+  // Pattern of each data column, in sheet order
+  const columnStrip = useMemo(() => {
+    if (!matrix || !partition) return [];
+    const byColumn = new Map<string, VariationPattern>();
+    for (const pattern of partition.patterns) {
+      for (const col of pattern.columns) byColumn.set(col, pattern);
+    }
+    const { start, end } = matrix.columnRange;
+    return Array.from({ length: end - start + 1 }, (_, i) => {
+      const columnLetter = indexToColumnLetter(start + i);
+      return { columnLetter, pattern: byColumn.get(columnLetter) };
+    });
+  }, [matrix, partition]);
+
+  const hasSelection = Object.keys(group.selectedFeatures).length > 0;
+
+  return (
+    <Card className="p-4 space-y-4 lg:sticky lg:top-4">
+      <div>
+        <h3 className="font-semibold text-foreground">Preview</h3>
+        <p className="text-xs text-muted-foreground">
+          Updates as features and items are toggled
+        </p>
+      </div>
+
+      {!partition ? (
+        <p className="text-sm text-muted-foreground italic">
+          Check the column settings to preview variations
+        </p>
+      ) : !hasSelection ? (
+        <p className="text-sm text-muted-foreground italic">
+          Select features to see the resulting variations
+        </p>
+      ) : (
+        <>
+          <div className="flex items-baseline gap-2">
+            <span className="text-3xl font-semibold text-primary">
+              {partition.patterns.length}
+            </span>
+            <span className="text-sm text-muted-foreground">
+              variation{partition.patterns.length === 1 ? "" : "s"} across{" "}
+              {columnStrip.length} grades
+            </span>
+          </div>
+
+          {/* Grade columns colored by label */}
+          <div className="flex flex-wrap gap-px">
+            {columnStrip.map(({ columnLetter, pattern }) => (
+              <div
+                key={columnLetter}
+                className="w-2 h-5 rounded-sm border border-border/50"
+                style={{ backgroundColor: pattern?.color }}
+                title={`${columnLetter}: ${pattern?.id ?? "?"}`}
+              />
+            ))}
+          </div>
+
+          {/* Variation sizes */}
+          <div className="space-y-1 max-h-64 overflow-y-auto">
+            {partition.patterns.map((pattern) => (
+              <div
+                key={pattern.id}
+                className="flex items-center gap-2 text-sm"
+              >
+                <span
+                  className="w-4 h-4 rounded border border-border"
+                  style={{ backgroundColor: pattern.color }}
+                />
+                <span className="font-medium text-foreground w-8">
+                  {pattern.id}
+                </span>
+                <span className="text-muted-foreground">
+                  {pattern.columns.length} grade
+                  {pattern.columns.length === 1 ? "" : "s"}
+                </span>
+              </div>
+            ))}
+          </div>
+        </>
+      )}
+    </Card>
+  );
+}
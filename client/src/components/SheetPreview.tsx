@@ -0,0 +1,159 @@
+/**
+ * Design Philosophy: Formal Minimal
+ * - Excel-style grid of the imported sheet
+ * - Click to pick feature/item columns and the data start
+ * - Selected regions highlighted in place
+ */
+
+import { useState } from "react";
+import { cn } from "@/lib/utils";
+import {
+  columnLetterToIndex,
+  indexToColumnLetter,
+} from "@shared/variationUtils";
+
+export interface SheetLayout {
+  featureColumn: string;
+  itemColumn: string;
+  startRow: number;
+  startDataColumn: string;
+}
+
+type PickMode = "featureColumn" | "itemColumn" | "startRow" | "startDataColumn";
+
+const PICK_MODES: Array<{ mode: PickMode; label: string; swatch: string }> = [
+  { mode: "featureColumn", label: "Feature column", swatch: "bg-sky-200" },
+  { mode: "itemColumn", label: "Item column", swatch: "bg-emerald-200" },
+  { mode: "startRow", label: "First data row", swatch: "bg-violet-200" },
+  { mode: "startDataColumn", label: "First data column", swatch: "bg-amber-200" },
+];
+
+// Rendering cap keeps very large sheets responsive
+const MAX_PREVIEW_ROWS = 300;
+const MAX_PREVIEW_COLUMNS = 80;
+
+interface SheetPreviewProps {
+  rawData: any[][];
+  layout: SheetLayout;
+  onLayoutChange: (update: Partial<SheetLayout>) => void;
+}
+
+export default function SheetPreview({
+  rawData,
+  layout,
+  onLayoutChange,
+}: SheetPreviewProps) {
+  const [mode, setMode] = useState<PickMode>("featureColumn");
+
+  const rowCount = Math.min(rawData.length, MAX_PREVIEW_ROWS);
+  const columnCount = Math.min(
+    rawData.reduce((max, row) => Math.max(max, row?.length || 0), 0),
+    MAX_PREVIEW_COLUMNS
+  );
+
+  const featureIndex = columnLetterToIndex(layout.featureColumn);
+  const itemIndex = columnLetterToIndex(layout.itemColumn);
+  const dataIndex = columnLetterToIndex(layout.startDataColumn);
+  const startRowIndex = layout.startRow - 1;
+
+  // Apply the active pick mode to a clicked cell or header
+  const handlePick = (rowIndex: number | null, colIndex: number | null) => {
+    if (mode === "startRow") {
+      if (rowIndex !== null) onLayoutChange({ startRow: rowIndex + 1 });
+    } else if (colIndex !== null) {
+      onLayoutChange({ [mode]: indexToColumnLetter(colIndex) });
+    }
+  };
+
+  const cellClass = (rowIndex: number, colIndex: number) => {
+    const inDataRows = rowIndex >= startRowIndex;
+    if (colIndex === featureIndex) return inDataRows ? "bg-sky-200" : "bg-sky-50";
+    if (colIndex === itemIndex)
+      return inDataRows ? "bg-emerald-200" : "bg-emerald-50";
+    if (rowIndex === startRowIndex) return "bg-violet-200";
+    if (colIndex >= dataIndex) return inDataRows ? "bg-amber-100" : "bg-amber-50/50";
+    return "";
+  };
+
+  const columns = Array.from({ length: columnCount }, (_, j) => j);
+
+  return (
+    <div className="space-y-3">
+      {/* Pick Mode */}
+      <div className="flex flex-wrap gap-2">
+        {PICK_MODES.map((m) => (
+          <button
+            key={m.mode}
+            onClick={() => setMode(m.mode)}
+            className={cn(
+              "px-3 py-1.5 rounded-lg border text-xs flex items-center gap-2 transition-colors",
+              mode === m.mode
+                ? "border-primary bg-primary/10 text-primary"
+                : "border-border text-foreground hover:border-primary/50"
+            )}
+          >
+            <span className={cn("w-3 h-3 rounded-sm", m.swatch)} />
+            {m.label}
+          </button>
+        ))}
+      </div>
+      <p className="text-xs text-muted-foreground">
+        Click a cell or header to set the{" "}
+        {PICK_MODES.find((m) => m.mode === mode)?.label.toLowerCase()}.
+      </p>
+
+      {/* Grid */}
+      <div className="max-h-96 overflow-auto border border-border rounded-lg">
+        <table className="text-xs border-collapse">
+          <thead>
+            <tr>
+              <th className="sticky top-0 left-0 z-20 bg-muted border border-border w-10" />
+              {columns.map((j) => (
+                <th
+                  key={j}
+                  onClick={() => handlePick(null, j)}
+                  className="sticky top-0 z-10 bg-muted border border-border px-2 py-1 font-medium text-muted-foreground cursor-pointer hover:bg-primary/10"
+                >
+                  {indexToColumnLetter(j)}
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            {rawData.slice(0, rowCount).map((row, i) => (
+              <tr key={i}>
+                <th
+                  onClick={() => handlePick(i, null)}
+                  className="sticky left-0 z-10 bg-muted border border-border px-2 py-1 font-medium text-muted-foreground cursor-pointer hover:bg-primary/10"
+                >
+                  {i + 1}
+                </th>
+                {columns.map((j) => (
+                  <td
+                    key={j}
+                    onClick={() => handlePick(i, j)}
+                    className={cn(
+                      "border border-border px-2 py-1 whitespace-nowrap max-w-40 truncate cursor-pointer hover:outline hover:outline-1 hover:outline-primary",
+                      cellClass(i, j)
+                    )}
+                    title={String(row?.[j] ?? "")}
+                  >
+                    {String(row?.[j] ?? "")}
+                  </td>
+                ))}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      {(rawData.length > rowCount ||
+        columnCount === MAX_PREVIEW_COLUMNS) && (
+        <p className="text-xs text-muted-foreground">
+          Preview limited to the first {MAX_PREVIEW_ROWS} rows and{" "}
+          {MAX_PREVIEW_COLUMNS} columns.
+        </p>
+      )}
+    </div>
+  );
+}
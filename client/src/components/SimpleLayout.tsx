@@ -7,6 +7,7 @@
 
 import { Link, useLocation } from "wouter";
 import { cn } from "@/lib/utils";
+import { useProject } from "@/contexts/ProjectContext";
 
 interface SimpleLayoutProps {
   children: React.ReactNode;
@@ -17,10 +18,12 @@ const navItems = [
   { path: "/configure", label: "Configure" },
   { path: "/analyze", label: "Analyze" },
   { path: "/results", label: "Results" },
+  { path: "/projects", label: "Projects" },
 ];
 
 export default function SimpleLayout({ children }: SimpleLayoutProps) {
   const [location] = useLocation();
+  const { activeProject } = useProject();
 
   return (
     <div className="min-h-screen flex flex-col bg-background text-foreground">
@@ -31,7 +34,14 @@ export default function SimpleLayout({ children }: SimpleLayoutProps) {
             <h1 className="text-2xl font-semibold text-foreground">
               Variation Calculator
             </h1>
-            <p className="text-sm text-muted-foreground">v2.0</p>
+            <div className="flex items-center gap-4 text-sm text-muted-foreground">
+              {activeProject && (
+                <Link href="/projects" className="hover:text-foreground">
+                  {activeProject.name}
+                </Link>
+              )}
+              <p>v2.0</p>
+            </div>
           </div>
 
           {/* Navigation */}
@@ -0,0 +1,160 @@
+/**
+ * Design Philosophy: Formal Minimal
+ * - One label row per variation group
+ * - Columns colored by the active group's partition
+ */
+
+import type { CSSProperties } from "react";
+import type { CellState, VariationAnalysis } from "@shared/types";
+import { CELL_STATE_LABELS, METADATA_FIELDS } from "@shared/variationUtils";
+
+interface VariationResultsTableProps {
+  analysis: VariationAnalysis;
+  activeGroupId: number;
+}
+
+function cellStyle(state: CellState, color: string): CSSProperties {
+  switch (state) {
+    case "applies":
+      return { backgroundColor: color };
+    case "optional":
+      return {
+        backgroundColor: color,
+        opacity: 0.75,
+        fontStyle: "italic",
+        outline: "1px dashed #999",
+        outlineOffset: "-3px",
+      };
+    case "notAvailable":
+      return { backgroundColor: "#eeeeee", color: "#999" };
+    default:
+      return { backgroundColor: "#ffffff", opacity: 0.5 };
+  }
+}
+
+export default function VariationResultsTable({
+  analysis,
+  activeGroupId,
+}: VariationResultsTableProps) {
+  const activeIndex = Math.max(
+    0,
+    analysis.groups.findIndex((g) => g.id === activeGroupId)
+  );
+  const metadataFields = METADATA_FIELDS.filter(
+    ({ field }) => analysis.metadataRows[field]
+  );
+
+  return (
+    <div className="overflow-x-auto border border-border rounded-lg">
+      <table className="w-full text-sm border-collapse">
+        <thead>
+          <tr className="bg-muted">
+            <th className="border border-border px-3 py-2 text-left font-medium text-foreground sticky left-0 bg-muted w-32">
+              Feature
+            </th>
+            <th className="border border-border px-3 py-2 text-left font-medium text-foreground sticky left-32 bg-muted w-32">
+              Item
+            </th>
+            {analysis.columnPatterns.map((cp) => {
+              const variation = cp.variations[activeIndex];
+              return (
+                <th
+                  key={cp.columnLetter}
+                  className="border border-border px-3 py-2 text-center font-medium text-xs min-w-12"
+                  style={{
+                    backgroundColor: variation?.backgroundColor || "#f5f5f5",
+                    color: "#000",
+                  }}
+                  title={cp.gradeName}
+                >
+                  <div className="font-semibold">{cp.columnLetter}</div>
+                  {!analysis.metadataRows.grade && (
+                    <div className="text-xs font-normal">{cp.gradeName}</div>
+                  )}
+                </th>
+              );
+            })}
+          </tr>
+          {metadataFields.map(({ field, title }) => (
+            <tr key={field} className="bg-muted/50">
+              <th
+                colSpan={2}
+                className="border border-border px-3 py-1 text-left font-medium text-xs text-muted-foreground sticky left-0 bg-muted"
+              >
+                {title}
+              </th>
+              {analysis.columnPatterns.map((cp) => (
+                <th
+                  key={cp.columnLetter}
+                  className="border border-border px-3 py-1 text-center font-normal text-xs text-foreground whitespace-nowrap"
+                >
+                  {cp.metadata[field]}
+                </th>
+              ))}
+            </tr>
+          ))}
+          {analysis.groups.map((group, groupIdx) => (
+            <tr key={group.id} className="bg-muted">
+              <th
+                colSpan={2}
+                className={`border border-border px-3 py-2 text-left font-medium sticky left-0 bg-muted ${
+                  groupIdx === activeIndex
+                    ? "text-primary"
+                    : "text-muted-foreground"
+                }`}
+              >
+                {group.name}
+              </th>
+              {analysis.columnPatterns.map((cp) => {
+                const variation = cp.variations[groupIdx];
+                return (
+                  <th
+                    key={cp.columnLetter}
+                    className="border border-border px-3 py-1 text-center font-semibold text-xs"
+                    style={{
+                      backgroundColor: variation?.backgroundColor || "#f5f5f5",
+                      color: "#000",
+                    }}
+                  >
+                    {variation?.label}
+                  </th>
+                );
+              })}
+            </tr>
+          ))}
+        </thead>
+        <tbody>
+          {analysis.featureRows.map((row, idx) => (
+            <tr key={idx} className="hover:bg-muted/50">
+              <td className="border border-border px-3 py-2 font-medium text-foreground sticky left-0 bg-background w-32">
+                {row.feature}
+              </td>
+              <td className="border border-border px-3 py-2 text-muted-foreground sticky left-32 bg-background w-32">
+                {row.item}
+              </td>
+              {row.values.map((value, colIdx) => {
+                const variation =
+                  analysis.columnPatterns[colIdx]?.variations[activeIndex];
+                const state = row.states[colIdx] || "notApplies";
+
+                return (
+                  <td
+                    key={colIdx}
+                    className="border border-border px-3 py-2 text-center font-medium min-w-12"
+                    style={cellStyle(
+                      state,
+                      variation?.backgroundColor || "#f5f5f5"
+                    )}
+                    title={CELL_STATE_LABELS[state]}
+                  >
+                    {value}
+                  </td>
+                );
+              })}
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+}
@@ -2,23 +2,47 @@
  * Design Philosophy: Formal Minimal
  * - Centralized state management
  * - Type-safe context API
+ * - One active project of many, saved to IndexedDB
  */
 
-import React, { createContext, useContext, useState, useCallback } from "react";
+import React, {
+  createContext,
+  useContext,
+  useState,
+  useCallback,
+  useEffect,
+  useRef,
+} from "react";
 import type {
   Configuration,
   ImportedData,
   VariationAnalysis,
+  VariationGroupConfig,
   ProjectState,
-} from "@/lib/types";
+  SourceWorkbook,
+} from "@shared/types";
+import { Button } from "@/components/ui/button";
+import { Card } from "@/components/ui/card";
+import * as projectStore from "@/lib/projectStore";
+import type { ProjectSummary } from "@/lib/projectStore";
 
 interface ProjectContextType {
   state: ProjectState;
-  setConfiguration: (config: Configuration) => void;
+  projects: ProjectSummary[];
+  activeProject: ProjectSummary | null;
+  setConfiguration: (config: Configuration | null) => void;
   setImportedData: (data: ImportedData) => void;
-  setVariationAnalysis: (analysis: VariationAnalysis) => void;
+  setVariationAnalysis: (analysis: VariationAnalysis | null) => void;
   setSelectedSheet: (sheet: string) => void;
+  setSourceWorkbook: (workbook: SourceWorkbook | null) => void;
+  setVariationGroups: (groups: VariationGroupConfig[]) => void;
+  importData: (data: ImportedData, workbook: SourceWorkbook | null) => void;
   resetProject: () => void;
+  createProject: (name?: string) => Promise<void>;
+  switchProject: (id: string) => Promise<ProjectState>;
+  renameProject: (id: string, name: string) => Promise<void>;
+  duplicateProject: (id: string) => Promise<void>;
+  deleteProject: (id: string) => Promise<void>;
 }
 
 const ProjectContext = createContext<ProjectContextType | undefined>(undefined);
@@ -28,12 +52,164 @@ const initialState: ProjectState = {
   importedData: null,
   variationAnalysis: null,
   selectedSheet: "F-List",
+  sourceWorkbook: null,
+  variationGroups: [],
 };
 
+const DEFAULT_PROJECT_NAME = "Untitled project";
+
+// Delay between the last change and the write
+const SAVE_DELAY_MS = 500;
+
+// Configuration, groups and results: saved on every settled change
+function partsChanged(a: ProjectState, b: ProjectState) {
+  return (
+    a.configuration !== b.configuration ||
+    a.variationGroups !== b.variationGroups ||
+    a.variationAnalysis !== b.variationAnalysis ||
+    a.selectedSheet !== b.selectedSheet
+  );
+}
+
+// Imported grid and file: saved once per import
+function dataChanged(a: ProjectState, b: ProjectState) {
+  return (
+    a.importedData !== b.importedData || a.sourceWorkbook !== b.sourceWorkbook
+  );
+}
+
 export function ProjectProvider({ children }: { children: React.ReactNode }) {
   const [state, setState] = useState<ProjectState>(initialState);
+  const [projects, setProjects] = useState<ProjectSummary[]>([]);
+  const [activeProjectId, setActiveProjectId] = useState<string | null>(null);
+  const [restored, setRestored] = useState(false);
+  const [restoreError, setRestoreError] = useState<string | null>(null);
+
+  // Refs let the async operations see the latest values
+  const stateRef = useRef(state);
+  stateRef.current = state;
+  const activeIdRef = useRef(activeProjectId);
+  activeIdRef.current = activeProjectId;
+  const saveTimer = useRef<ReturnType<typeof setTimeout> | null>(null);
+  // State as last loaded from or written to the store
+  const persisted = useRef<ProjectState>(initialState);
+
+  const markPartsSaved = (saved: ProjectState) => {
+    persisted.current = {
+      ...saved,
+      importedData: persisted.current.importedData,
+      sourceWorkbook: persisted.current.sourceWorkbook,
+    };
+  };
+
+  const updateSummary = (summary: ProjectSummary) => {
+    setProjects((prev) =>
+      [summary, ...prev.filter((p) => p.id !== summary.id)].sort(
+        (a, b) => b.updatedAt - a.updatedAt
+      )
+    );
+  };
+
+  // Make a project active without saving its just-loaded state back
+  const activate = async (id: string, projectState: ProjectState) => {
+    persisted.current = { ...initialState, ...projectState };
+    setState(persisted.current);
+    setActiveProjectId(id);
+    await projectStore.setActiveProjectId(id);
+  };
+
+  // Write a pending change of the active project right away
+  const flushSave = async () => {
+    if (!saveTimer.current || !activeIdRef.current) return;
+    clearTimeout(saveTimer.current);
+    saveTimer.current = null;
+    const snapshot = stateRef.current;
+    markPartsSaved(snapshot);
+    updateSummary(
+      await projectStore.saveProjectState(activeIdRef.current, snapshot)
+    );
+  };
+
+  // Restore the active project (or start one) before rendering any page
+  const restore = async () => {
+    setRestoreError(null);
+    try {
+      let list = await projectStore.listProjects();
+      const activeId = await projectStore.getActiveProjectId();
+      let active = list.find((p) => p.id === activeId) || list[0];
+
+      if (!active) {
+        active = await projectStore.createProject(
+          DEFAULT_PROJECT_NAME,
+          initialState
+        );
+        list = [active];
+      }
+
+      setProjects(list);
+      await activate(
+        active.id,
+        (await projectStore.loadProjectState(active.id)) || initialState
+      );
+      setRestored(true);
+    } catch (error) {
+      console.error("Failed to restore project:", error);
+      setRestoreError(
+        error instanceof Error ? error.message : "Unknown storage error"
+      );
+    }
+  };
+
+  useEffect(() => {
+    restore();
+  }, []);
+
+  // Save the small parts after edits settle, leaving the sheet untouched
+  useEffect(() => {
+    const id = activeIdRef.current;
+    if (!restored || !id || !partsChanged(state, persisted.current)) return;
+
+    saveTimer.current = setTimeout(() => {
+      saveTimer.current = null;
+      markPartsSaved(state);
+      projectStore
+        .saveProjectState(id, state)
+        .then(updateSummary)
+        .catch((error) => {
+          console.error("Failed to save project:", error);
+        });
+    }, SAVE_DELAY_MS);
 
-  const setConfiguration = useCallback((config: Configuration) => {
+    return () => {
+      if (saveTimer.current) clearTimeout(saveTimer.current);
+    };
+  }, [
+    state.configuration,
+    state.variationGroups,
+    state.variationAnalysis,
+    state.selectedSheet,
+    restored,
+  ]);
+
+  // Save the whole project right away when new data is imported
+  useEffect(() => {
+    const id = activeIdRef.current;
+    if (!restored || !id || !dataChanged(state, persisted.current)) return;
+
+    if (saveTimer.current) {
+      clearTimeout(saveTimer.current);
+      saveTimer.current = null;
+    }
+    persisted.current = state;
+    projectStore
+      .saveProjectData(id, state)
+      .then(updateSummary)
+      .catch((error) => {
+        console.error("Failed to save project data:", error);
+      });
+  }, [state.importedData, state.sourceWorkbook, restored]);
+
+  const setConfiguration = useCallback((config: Configuration | null) => {
     setState((prev) => ({ ...prev, configuration: config }));
   }, []);
 
@@ -41,27 +217,144 @@ export function ProjectProvider({ children }: { children: React.ReactNode }) {
     setState((prev) => ({ ...prev, importedData: data }));
   }, []);
 
-  const setVariationAnalysis = useCallback((analysis: VariationAnalysis) => {
-    setState((prev) => ({ ...prev, variationAnalysis: analysis }));
-  }, []);
+  const setVariationAnalysis = useCallback(
+    (analysis: VariationAnalysis | null) => {
+      setState((prev) => ({ ...prev, variationAnalysis: analysis }));
+    },
+    []
+  );
 
   const setSelectedSheet = useCallback((sheet: string) => {
     setState((prev) => ({ ...prev, selectedSheet: sheet }));
   }, []);
 
+  const setSourceWorkbook = useCallback((workbook: SourceWorkbook | null) => {
+    setState((prev) => ({ ...prev, sourceWorkbook: workbook }));
+  }, []);
+
+  const setVariationGroups = useCallback((groups: VariationGroupConfig[]) => {
+    setState((prev) => ({ ...prev, variationGroups: groups }));
+  }, []);
+
+  // New data starts the project over: layout, groups and results are dropped
+  const importData = useCallback(
+    (data: ImportedData, workbook: SourceWorkbook | null) => {
+      setState({
+        ...initialState,
+        importedData: data,
+        sourceWorkbook: workbook,
+        selectedSheet: data.sheetName,
+      });
+    },
+    []
+  );
+
   const resetProject = useCallback(() => {
     setState(initialState);
   }, []);
 
+  const createProject = async (name: string = DEFAULT_PROJECT_NAME) => {
+    await flushSave();
+    const summary = await projectStore.createProject(name, initialState);
+    updateSummary(summary);
+    await activate(summary.id, initialState);
+  };
+
+  const switchProject = async (id: string) => {
+    if (id === activeIdRef.current) return stateRef.current;
+
+    const projectState = await projectStore.loadProjectState(id);
+    if (!projectState) {
+      throw new Error(`Project not found: ${id}`);
+    }
+    await flushSave();
+    await activate(id, projectState);
+    return { ...initialState, ...projectState };
+  };
+
+  const renameProject = async (id: string, name: string) => {
+    await projectStore.renameProject(id, name);
+    setProjects((prev) => prev.map((p) => (p.id === id ? { ...p, name } : p)));
+  };
+
+  const duplicateProject = async (id: string) => {
+    if (id === activeIdRef.current) await flushSave();
+
+    const source = projects.find((p) => p.id === id);
+    const projectState = await projectStore.loadProjectState(id);
+    if (!source || !projectState) {
+      throw new Error(`Project not found: ${id}`);
+    }
+    updateSummary(
+      await projectStore.createProject(`${source.name} (copy)`, projectState)
+    );
+  };
+
+  const deleteProject = async (id: string) => {
+    if (id === activeIdRef.current && saveTimer.current) {
+      clearTimeout(saveTimer.current);
+      saveTimer.current = null;
+    }
+    await projectStore.deleteProject(id);
+
+    const remaining = projects.filter((p) => p.id !== id);
+    setProjects(remaining);
+    if (id !== activeIdRef.current) return;
+
+    // The active project is gone: open the most recent one, or start fresh
+    if (remaining.length > 0) {
+      await activate(
+        remaining[0].id,
+        (await projectStore.loadProjectState(remaining[0].id)) || initialState
+      );
+    } else {
+      await createProject();
+    }
+  };
+
+  // Pages wait for the restore; without storage the app runs unsaved
+  if (!restored) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-background p-6">
+        {restoreError ? (
+          <Card className="p-6 max-w-md space-y-4">
+            <h2 className="font-semibold text-foreground">
+              Saved projects could not be opened
+            </h2>
+            <p className="text-sm text-muted-foreground">{restoreError}</p>
+            <div className="flex justify-end gap-3">
+              <Button variant="outline" onClick={() => setRestored(true)}>
+                Continue Without Saving
+              </Button>
+              <Button onClick={restore}>Retry</Button>
+            </div>
+          </Card>
+        ) : (
+          <p className="text-sm text-muted-foreground">Loading project...</p>
+        )}
+      </div>
+    );
+  }
+
   return (
     <ProjectContext.Provider
       value={{
         state,
+        projects,
+        activeProject: projects.find((p) => p.id === activeProjectId) || null,
         setConfiguration,
         setImportedData,
         setVariationAnalysis,
         setSelectedSheet,
+        setSourceWorkbook,
+        setVariationGroups,
+        importData,
         resetProject,
+        createProject,
+        switchProject,
+        renameProject,
+        duplicateProject,
+        deleteProject,
       }}
     >
       {children}
@@ -0,0 +1,77 @@
+/**
+ * Design Philosophy: Formal Minimal
+ * - Clipboard writes with a rich (HTML) and a plain (TSV) flavor
+ * - Pasted ranges read back into grids
+ */
+
+import {
+  parseDelimitedText,
+  sheetToHtml,
+  toDelimitedText,
+  type StyledSheet,
+} from "@shared/workbookUtils";
+
+/**
+ * Copy a sheet as TSV and HTML so it pastes into spreadsheets and email
+ * Falls back to plain text where ClipboardItem is unavailable
+ */
+export async function copySheetToClipboard(sheet: StyledSheet): Promise<void> {
+  const text = toDelimitedText(sheet.data, "\t");
+
+  if (typeof ClipboardItem === "undefined" || !navigator.clipboard.write) {
+    await navigator.clipboard.writeText(text);
+    return;
+  }
+
+  await navigator.clipboard.write([
+    new ClipboardItem({
+      "text/plain": new Blob([text], { type: "text/plain" }),
+      "text/html": new Blob([sheetToHtml(sheet)], { type: "text/html" }),
+    }),
+  ]);
+}
+
+/**
+ * Convert the first HTML table into a grid
+ * Merged cells (rowspan/colspan) keep their value in the top-left cell
+ */
+function htmlTableToGrid(html: string): string[][] {
+  const table = new DOMParser()
+    .parseFromString(html, "text/html")
+    .querySelector("table");
+  if (!table) return [];
+
+  const grid: string[][] = [];
+  Array.from(table.rows).forEach((tr, rowIdx) => {
+    grid[rowIdx] ||= [];
+    let colIdx = 0;
+    for (const cell of Array.from(tr.cells)) {
+      while (grid[rowIdx][colIdx] !== undefined) colIdx++;
+      const text = (cell.textContent || "").replace(/\s+/g, " ").trim();
+      for (let dr = 0; dr < Math.max(1, cell.rowSpan); dr++) {
+        for (let dc = 0; dc < Math.max(1, cell.colSpan); dc++) {
+          (grid[rowIdx + dr] ||= [])[colIdx + dc] =
+            dr === 0 && dc === 0 ? text : "";
+        }
+      }
+      colIdx += Math.max(1, cell.colSpan);
+    }
+  });
+
+  const width = Math.max(0, ...grid.map((row) => row.length));
+  return grid.map((row) =>
+    Array.from({ length: width }, (_, colIdx) => row[colIdx] ?? "")
+  );
+}
+
+/**
+ * Read a pasted range as a grid, preferring the HTML table flavor
+ */
+export function clipboardDataToGrid(data: DataTransfer): string[][] {
+  const html = data.getData("text/html");
+  const grid = html ? htmlTableToGrid(html) : [];
+  if (grid.length > 0) return grid;
+
+  const text = data.getData("text/plain");
+  return text ? parseDelimitedText(text, "\t") : [];
+}
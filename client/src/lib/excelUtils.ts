@@ -1,168 +1,243 @@
 /**
  * Design Philosophy: Formal Minimal
- * - Excel import/export utilities
- * - Type-safe XLSX operations
+ * - Browser wrappers around the shared workbook utilities
+ * - File in (parsed in a worker), file download out
+ * - ExcelJS loaded only when something is exported
  */
 
-import * as XLSX from "xlsx";
+import {
+  WorkbookError,
+  type StyledSheet,
+  type WorkbookErrorCode,
+} from "@shared/workbookUtils";
+import type { WriteBackOptions } from "@shared/workbookWriter";
+import type { SourceWorkbook, VariationAnalysis } from "@shared/types";
+import type {
+  WorkbookWorkerRequest,
+  WorkbookWorkerResponse,
+} from "@/workers/workbook.worker";
+
+export type LoadStage = "reading" | "parsing" | "converting";
+
+export interface LoadProgress {
+  stage: LoadStage;
+  percent: number;
+}
+
+export interface LoadedWorkbook {
+  key: string; // File identity, the worker caches one parsed workbook per key
+  fileName: string;
+  data: ArrayBuffer;
+  sheetNames: string[];
+}
 
 /**
- * Read Excel file and return sheet names
+ * Read a File into an ArrayBuffer, reporting read progress (0-100)
  */
-export async function getExcelSheetNames(file: File): Promise<string[]> {
+export function readFileAsArrayBuffer(
+  file: File,
+  onProgress?: (percent: number) => void
+): Promise<ArrayBuffer> {
   return new Promise((resolve, reject) => {
-    // Validate file type
-    if (!file.type.includes('spreadsheet') && !file.type.includes('sheet') && !file.name.match(/\.(xlsx?|xlsm)$/i)) {
-      reject(new Error('Invalid file type. Please upload an Excel file.'));
-      return;
-    }
-
     const reader = new FileReader();
-
-    reader.onload = (e) => {
-      try {
-        const data = e.target?.result;
-        if (!data) {
-          reject(new Error('Failed to read file'));
-          return;
-        }
-        const workbook = XLSX.read(data, { type: "binary" });
-        if (!workbook.SheetNames || workbook.SheetNames.length === 0) {
-          reject(new Error('No sheets found in workbook'));
-          return;
-        }
-        resolve(workbook.SheetNames);
-      } catch (error) {
-        reject(new Error(`Failed to parse Excel file: ${error instanceof Error ? error.message : 'Unknown error'}`));
+    reader.onprogress = (event) => {
+      if (event.lengthComputable) {
+        onProgress?.((event.loaded / event.total) * 100);
       }
     };
+    reader.onload = () => resolve(reader.result as ArrayBuffer);
+    reader.onerror = () => reject(new Error("Failed to read file"));
+    reader.readAsArrayBuffer(file);
+  });
+}
 
-    reader.onerror = () => reject(new Error('Failed to read file'));
-    reader.onabort = () => reject(new Error('File reading aborted'));
-    reader.readAsBinaryString(file);
+let worker: Worker | null = null;
+let nextRequestId = 0;
+const pendingRequests = new Map<
+  number,
+  {
+    resolve: (response: WorkbookWorkerResponse) => void;
+    reject: (error: Error) => void;
+    onStage?: (stage: LoadStage) => void;
+  }
+>();
+
+function getWorker(): Worker {
+  if (worker) return worker;
+
+  worker = new Worker(
+    new URL("../workers/workbook.worker.ts", import.meta.url),
+    { type: "module" }
+  );
+  worker.onmessage = (event: MessageEvent<WorkbookWorkerResponse>) => {
+    const response = event.data;
+    const request = pendingRequests.get(response.id);
+    if (!request) return;
+
+    if (response.type === "progress") {
+      request.onStage?.(response.stage);
+      return;
+    }
+
+    pendingRequests.delete(response.id);
+    if (response.type === "error") {
+      request.reject(
+        response.code
+          ? new WorkbookError(
+              response.code as WorkbookErrorCode,
+              response.message
+            )
+          : new Error(response.message)
+      );
+    } else {
+      request.resolve(response);
+    }
+  };
+  worker.onerror = (event) => {
+    pendingRequests.forEach(({ reject }) => reject(new Error(event.message)));
+    pendingRequests.clear();
+    worker?.terminate();
+    worker = null;
+    workerKey = null;
+  };
+
+  return worker;
+}
+
+function callWorker(
+  buildRequest: (id: number) => WorkbookWorkerRequest,
+  onStage?: (stage: LoadStage) => void
+): Promise<WorkbookWorkerResponse> {
+  const id = nextRequestId++;
+  return new Promise((resolve, reject) => {
+    pendingRequests.set(id, { resolve, reject, onStage });
+    getWorker().postMessage(buildRequest(id));
   });
 }
 
+function validateFileType(file: File): void {
+  if (!file.type.includes('spreadsheet') && !file.type.includes('sheet') && !file.name.match(/\.(xlsx?|xlsm|ods|csv|tsv)$/i)) {
+    throw new Error('Invalid file type. Please upload an Excel, ODS or CSV file.');
+  }
+}
+
+let lastLoaded: LoadedWorkbook | null = null;
+let workerKey: string | null = null; // Workbook currently parsed in the worker
+
 /**
- * Read specific sheet from Excel file
+ * Read and parse a workbook once, in the worker
+ * Loading the same file again reuses the parsed workbook
  */
-export async function readExcelSheet(
+export async function loadWorkbook(
   file: File,
-  sheetName: string
-): Promise<any[][]> {
-  return new Promise((resolve, reject) => {
-    const reader = new FileReader();
-
-    reader.onload = (e) => {
-      try {
-        const data = e.target?.result;
-        if (!data) {
-          reject(new Error('Failed to read file'));
-          return;
-        }
-
-        const workbook = XLSX.read(data, { type: "binary" });
-
-        if (!workbook.SheetNames.includes(sheetName)) {
-          reject(new Error(`Sheet "${sheetName}" not found`));
-          return;
-        }
-
-        const worksheet = workbook.Sheets[sheetName];
-        const jsonData = XLSX.utils.sheet_to_json(worksheet, {
-          header: 1,
-          defval: "",
-        }) as any[][];
-
-        if (!jsonData || jsonData.length === 0) {
-          reject(new Error('Sheet is empty'));
-          return;
-        }
-
-        resolve(jsonData);
-      } catch (error) {
-        reject(new Error(`Failed to read sheet: ${error instanceof Error ? error.message : 'Unknown error'}`));
-      }
-    };
+  onProgress?: (progress: LoadProgress) => void
+): Promise<LoadedWorkbook> {
+  validateFileType(file);
+
+  const key = `${file.name}:${file.size}:${file.lastModified}`;
+  if (lastLoaded?.key === key) return lastLoaded;
+
+  const data = await readFileAsArrayBuffer(file, (percent) =>
+    onProgress?.({ stage: "reading", percent: percent * 0.6 })
+  );
+  const loaded = await openInWorker(key, file.name, data, onProgress);
+  lastLoaded = loaded;
+  return loaded;
+}
 
-    reader.onerror = () => reject(new Error('Failed to read file'));
-    reader.onabort = () => reject(new Error('File reading aborted'));
-    reader.readAsBinaryString(file);
-  });
+async function openInWorker(
+  key: string,
+  fileName: string,
+  data: ArrayBuffer,
+  onProgress?: (progress: LoadProgress) => void
+): Promise<LoadedWorkbook> {
+  const response = await callWorker(
+    (id) => ({ id, type: "open", key, fileName, data }),
+    (stage) => onProgress?.({ stage, percent: 70 })
+  );
+  if (response.type !== "opened") throw new Error("Unexpected worker reply");
+
+  workerKey = key;
+  return { key, fileName, data, sheetNames: response.sheetNames };
 }
 
 /**
- * Read Excel file and return all data
+ * Convert one sheet of a loaded workbook into a grid
+ * Re-parses only if the worker dropped the workbook for a newer one
  */
-export async function readExcelFile(file: File): Promise<any[][]> {
-  return new Promise((resolve, reject) => {
-    const reader = new FileReader();
+export async function loadSheetGrid(
+  workbook: LoadedWorkbook,
+  sheetName: string,
+  onProgress?: (progress: LoadProgress) => void
+): Promise<any[][]> {
+  if (workerKey !== workbook.key) {
+    await openInWorker(workbook.key, workbook.fileName, workbook.data);
+  }
 
-    reader.onload = (e) => {
-      try {
-        const data = e.target?.result;
-        if (!data) {
-          reject(new Error('Failed to read file'));
-          return;
-        }
-
-        const workbook = XLSX.read(data, { type: "binary" });
-        if (!workbook.SheetNames || workbook.SheetNames.length === 0) {
-          reject(new Error('No sheets found in workbook'));
-          return;
-        }
-
-        const firstSheetName = workbook.SheetNames[0];
-        const worksheet = workbook.Sheets[firstSheetName];
-        const jsonData = XLSX.utils.sheet_to_json(worksheet, {
-          header: 1,
-          defval: "",
-        }) as any[][];
-
-        if (!jsonData || jsonData.length === 0) {
-          reject(new Error('Sheet is empty'));
-          return;
-        }
-
-        resolve(jsonData);
-      } catch (error) {
-        reject(new Error(`Failed to read file: ${error instanceof Error ? error.message : 'Unknown error'}`));
-      }
-    };
+  const response = await callWorker(
+    (id) => ({ id, type: "sheet", key: workbook.key, sheetName }),
+    (stage) => onProgress?.({ stage, percent: 90 })
+  );
+  if (response.type !== "grid") throw new Error("Unexpected worker reply");
 
-    reader.onerror = () => reject(new Error('Failed to read file'));
-    reader.onabort = () => reject(new Error('File reading aborted'));
-    reader.readAsBinaryString(file);
-  });
+  onProgress?.({ stage: "converting", percent: 100 });
+  return response.grid;
 }
 
 /**
- * Export data to Excel file
+ * Trigger a browser download for generated bytes
  */
-export function exportToExcel(
-  data: any[][],
+export function downloadFile(
+  data: ArrayBuffer | string,
   filename: string,
-  sheetName: string = "Sheet1"
+  mimeType: string
 ): void {
-  const worksheet = XLSX.utils.aoa_to_sheet(data);
-  const workbook = XLSX.utils.book_new();
-  XLSX.utils.book_append_sheet(workbook, worksheet, sheetName);
-  XLSX.writeFile(workbook, filename);
+  const blob = new Blob([data], { type: mimeType });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  URL.revokeObjectURL(url);
+}
+
+const XLSX_MIME_TYPE =
+  "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet";
+
+// ExcelJS chunk, fetched on the first export
+function loadWriter() {
+  return import("@shared/workbookWriter");
 }
 
 /**
  * Export multiple sheets to Excel file
  */
-export function exportMultipleSheetsToExcel(
-  sheets: { name: string; data: any[][] }[],
+export async function exportMultipleSheetsToExcel(
+  sheets: StyledSheet[],
   filename: string
-): void {
-  const workbook = XLSX.utils.book_new();
-
-  for (const sheet of sheets) {
-    const worksheet = XLSX.utils.aoa_to_sheet(sheet.data);
-    XLSX.utils.book_append_sheet(workbook, worksheet, sheet.name);
-  }
+): Promise<void> {
+  const { writeWorkbook } = await loadWriter();
+  downloadFile(await writeWorkbook(sheets), filename, XLSX_MIME_TYPE);
+}
 
-  XLSX.writeFile(workbook, filename);
+/**
+ * Export the originally uploaded workbook with variation labels written in
+ * Returns the download filename
+ */
+export async function exportWithVariationLabels(
+  source: SourceWorkbook,
+  analysis: VariationAnalysis,
+  options: WriteBackOptions
+): Promise<string> {
+  const baseName = source.fileName.replace(/\.[^.]+$/, "");
+  const filename = `${baseName}_variations.xlsx`;
+  const { writeVariationLabels } = await loadWriter();
+  downloadFile(
+    await writeVariationLabels(source.data, analysis, options),
+    filename,
+    XLSX_MIME_TYPE
+  );
+  return filename;
 }
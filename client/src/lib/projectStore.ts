@@ -0,0 +1,279 @@
+/**
+ * Design Philosophy: Formal Minimal
+ * - Projects kept in IndexedDB across reloads
+ * - Summaries listed without loading sheet data
+ * - Sheet and file stored apart, written once per import
+ */
+
+import type { ProjectState } from "@shared/types";
+
+const DB_NAME = "variation-analyzer";
+const DB_VERSION = 1;
+const PROJECTS_STORE = "projects";
+const STATES_STORE = "states";
+const DATA_STORE = "data";
+const SETTINGS_STORE = "settings";
+const ACTIVE_PROJECT_KEY = "activeProjectId";
+
+export interface ProjectSummary {
+  id: string;
+  name: string;
+  fileName: string | null;
+  sheetName: string | null;
+  groupCount: number;
+  createdAt: number;
+  updatedAt: number;
+}
+
+// Small, often edited parts of a project
+type StoredState = Omit<ProjectState, "importedData" | "sourceWorkbook">;
+// Imported grid and file, replaced only by a new import
+type StoredData = Pick<ProjectState, "importedData" | "sourceWorkbook">;
+
+function splitState(state: ProjectState): {
+  stored: StoredState;
+  data: StoredData;
+} {
+  const { importedData, sourceWorkbook, ...stored } = state;
+  return { stored, data: { importedData, sourceWorkbook } };
+}
+
+let databasePromise: Promise<IDBDatabase> | null = null;
+
+function createProjectId(): string {
+  return `project-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+}
+
+function summarize(
+  summary: Omit<ProjectSummary, "fileName" | "sheetName" | "groupCount">,
+  state: ProjectState
+): ProjectSummary {
+  return {
+    ...summary,
+    fileName: state.sourceWorkbook?.fileName || null,
+    sheetName: state.importedData?.sheetName || null,
+    groupCount: state.variationGroups.length,
+  };
+}
+
+function openDatabase(): Promise<IDBDatabase> {
+  if (!databasePromise) {
+    databasePromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      let blocked = false;
+      request.onupgradeneeded = () => {
+        const database = request.result;
+        database.createObjectStore(PROJECTS_STORE, { keyPath: "id" });
+        database.createObjectStore(STATES_STORE);
+        database.createObjectStore(DATA_STORE);
+        database.createObjectStore(SETTINGS_STORE);
+      };
+      request.onsuccess = () => {
+        const database = request.result;
+        // Opened after giving up on it: release for the retry
+        if (blocked) {
+          database.close();
+          return;
+        }
+        // Let another tab upgrade the schema; reopen on next use
+        database.onversionchange = () => {
+          database.close();
+          databasePromise = null;
+        };
+        resolve(database);
+      };
+      request.onerror = () => reject(request.error);
+      // An older connection in another tab holds up the upgrade
+      request.onblocked = () => {
+        blocked = true;
+        reject(
+          new Error(
+            "Saved projects are in use by another tab of this app. Close it and retry."
+          )
+        );
+      };
+    });
+    // Allow a retry after a failed open
+    databasePromise.catch(() => {
+      databasePromise = null;
+    });
+  }
+  return databasePromise;
+}
+
+/**
+ * Run requests in one transaction, resolving once it commits
+ */
+async function runTransaction<T>(
+  storeNames: string[],
+  mode: IDBTransactionMode,
+  run: (transaction: IDBTransaction) => IDBRequest<T> | void
+): Promise<T> {
+  const database = await openDatabase();
+  return new Promise((resolve, reject) => {
+    const transaction = database.transaction(storeNames, mode);
+    const request = run(transaction);
+    transaction.oncomplete = () =>
+      resolve(request ? request.result : (undefined as T));
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+}
+
+/**
+ * All projects, most recently updated first
+ */
+export async function listProjects(): Promise<ProjectSummary[]> {
+  const projects = await runTransaction<ProjectSummary[]>(
+    [PROJECTS_STORE],
+    "readonly",
+    (transaction) => transaction.objectStore(PROJECTS_STORE).getAll()
+  );
+  return projects.sort((a, b) => b.updatedAt - a.updatedAt);
+}
+
+export async function loadProjectState(
+  id: string
+): Promise<ProjectState | null> {
+  let stored: StoredState | undefined;
+  let data: StoredData | undefined;
+
+  await runTransaction(
+    [STATES_STORE, DATA_STORE],
+    "readonly",
+    (transaction) => {
+      const statesRequest = transaction.objectStore(STATES_STORE).get(id);
+      statesRequest.onsuccess = () => {
+        stored = statesRequest.result;
+      };
+      const dataRequest = transaction.objectStore(DATA_STORE).get(id);
+      dataRequest.onsuccess = () => {
+        data = dataRequest.result;
+      };
+    }
+  );
+
+  if (!stored) return null;
+  return {
+    ...(stored as StoredState),
+    importedData: data?.importedData || null,
+    sourceWorkbook: data?.sourceWorkbook || null,
+  };
+}
+
+/**
+ * Store part of a project and refresh its summary
+ * The grid and file are written only when includeData is set
+ */
+async function writeProject(
+  id: string,
+  state: ProjectState,
+  includeData: boolean
+): Promise<ProjectSummary> {
+  let summary: ProjectSummary | null = null;
+  const { stored, data } = splitState(state);
+  const storeNames = includeData
+    ? [PROJECTS_STORE, STATES_STORE, DATA_STORE]
+    : [PROJECTS_STORE, STATES_STORE];
+
+  await runTransaction(storeNames, "readwrite", (transaction) => {
+    const projects = transaction.objectStore(PROJECTS_STORE);
+    const request = projects.get(id);
+    request.onsuccess = () => {
+      const existing = request.result as ProjectSummary | undefined;
+      if (!existing) return;
+      summary = summarize({ ...existing, updatedAt: Date.now() }, state);
+      projects.put(summary);
+      transaction.objectStore(STATES_STORE).put(stored, id);
+      if (includeData) transaction.objectStore(DATA_STORE).put(data, id);
+    };
+  });
+
+  if (!summary) {
+    throw new Error(`Project not found: ${id}`);
+  }
+  return summary;
+}
+
+/**
+ * Save configuration, groups and results of a project
+ */
+export function saveProjectState(
+  id: string,
+  state: ProjectState
+): Promise<ProjectSummary> {
+  return writeProject(id, state, false);
+}
+
+/**
+ * Save a project including its imported grid and file
+ */
+export function saveProjectData(
+  id: string,
+  state: ProjectState
+): Promise<ProjectSummary> {
+  return writeProject(id, state, true);
+}
+
+export async function createProject(
+  name: string,
+  state: ProjectState
+): Promise<ProjectSummary> {
+  const now = Date.now();
+  const summary = summarize(
+    { id: createProjectId(), name, createdAt: now, updatedAt: now },
+    state
+  );
+
+  const { stored, data } = splitState(state);
+
+  await runTransaction(
+    [PROJECTS_STORE, STATES_STORE, DATA_STORE],
+    "readwrite",
+    (transaction) => {
+      transaction.objectStore(PROJECTS_STORE).put(summary);
+      transaction.objectStore(STATES_STORE).put(stored, summary.id);
+      transaction.objectStore(DATA_STORE).put(data, summary.id);
+    }
+  );
+
+  return summary;
+}
+
+export async function renameProject(id: string, name: string): Promise<void> {
+  await runTransaction([PROJECTS_STORE], "readwrite", (transaction) => {
+    const projects = transaction.objectStore(PROJECTS_STORE);
+    const request = projects.get(id);
+    request.onsuccess = () => {
+      if (request.result) projects.put({ ...request.result, name });
+    };
+  });
+}
+
+export async function deleteProject(id: string): Promise<void> {
+  await runTransaction(
+    [PROJECTS_STORE, STATES_STORE, DATA_STORE],
+    "readwrite",
+    (transaction) => {
+      transaction.objectStore(PROJECTS_STORE).delete(id);
+      transaction.objectStore(STATES_STORE).delete(id);
+      transaction.objectStore(DATA_STORE).delete(id);
+    }
+  );
+}
+
+export async function getActiveProjectId(): Promise<string | null> {
+  const id = await runTransaction<string | undefined>(
+    [SETTINGS_STORE],
+    "readonly",
+    (transaction) =>
+      transaction.objectStore(SETTINGS_STORE).get(ACTIVE_PROJECT_KEY)
+  );
+  return id || null;
+}
+
+export async function setActiveProjectId(id: string): Promise<void> {
+  await runTransaction([SETTINGS_STORE], "readwrite", (transaction) => {
+    transaction.objectStore(SETTINGS_STORE).put(id, ACTIVE_PROJECT_KEY);
+  });
+}
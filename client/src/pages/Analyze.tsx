@@ -5,106 +5,23 @@
  * - Export options
  */
 
-import { useState, useEffect } from "react";
+import { useState } from "react";
 import { Button } from "@/components/ui/button";
 import { Card } from "@/components/ui/card";
-import { toast } from "sonner";
-import { Download, ArrowLeft } from "lucide-react";
+import { ArrowLeft, Copy } from "lucide-react";
 import { useProject } from "@/contexts/ProjectContext";
 import { useLocation } from "wouter";
-import { analyzeVariations, type AnalysisResult } from "@/lib/variationUtils";
-import { exportToExcel } from "@/lib/excelUtils";
-
-interface VariationGroupConfig {
-  id: string;
-  name: string;
-  selectedFeatures: { [featureName: string]: string[] };
-}
+import { toast } from "sonner";
+import { copySheetToClipboard } from "@/lib/clipboardUtils";
+import { buildResultsSheet } from "@shared/exportUtils";
+import VariationResultsTable from "@/components/VariationResultsTable";
+import ExportPanel from "@/components/ExportPanel";
 
 export default function AnalyzePage() {
   const [, setLocation] = useLocation();
   const { state } = useProject();
-  const [analysisResult, setAnalysisResult] = useState<AnalysisResult | null>(
-    null
-  );
-  const [exporting, setExporting] = useState(false);
-
-  // Get variation groups from session storage
-  const getVariationGroups = (): VariationGroupConfig[] => {
-    try {
-      const stored = sessionStorage.getItem("variationGroups");
-      if (stored) {
-        return JSON.parse(stored);
-      }
-    } catch (e) {
-      console.error("Failed to parse variation groups");
-    }
-    return [];
-  };
-
-  // Load analysis result
-  useEffect(() => {
-    if (!state.importedData || !state.configuration) {
-      return;
-    }
-
-    try {
-      const variationGroups = getVariationGroups();
-      if (variationGroups.length === 0) {
-        toast.error("No variation groups found");
-        return;
-      }
-
-      const result = analyzeVariations(
-        state.importedData.rawData,
-        {
-          featureColumn: state.configuration.featureColumn,
-          itemColumn: (state.configuration as any).itemColumn || "N",
-          startRow: state.configuration.startRow,
-          startDataColumn: state.configuration.startDataColumn,
-        },
-        variationGroups
-      );
-
-      setAnalysisResult(result);
-    } catch (error) {
-      console.error("Failed to load analysis:", error);
-      toast.error("Failed to load analysis results");
-    }
-  }, [state.importedData, state.configuration]);
-
-  const handleExportResults = () => {
-    if (!analysisResult) {
-      toast.error("No analysis results");
-      return;
-    }
-
-    setExporting(true);
-
-    try {
-      // Build export data
-      const exportData: any[][] = [];
-
-      // Add header rows
-      analysisResult.headerRows.forEach((row) => {
-        exportData.push(row);
-      });
-
-      // Add feature rows with data
-      analysisResult.featureRows.forEach((row) => {
-        const exportRow = [row.feature, row.item, ...row.values];
-        exportData.push(exportRow);
-      });
-
-      exportToExcel(exportData, "variation_results.xlsx", "Results");
-      toast.success("Exported: variation_results.xlsx");
-    } catch (error) {
-      toast.error("Export failed");
-      console.error(error);
-    } finally {
-      setExporting(false);
-    }
-  };
+  const analysisResult = state.variationAnalysis;
+  const [activeGroupId, setActiveGroupId] = useState(0);
 
   if (!state.importedData || !state.configuration) {
     return (
@@ -118,12 +35,34 @@ export default function AnalyzePage() {
   if (!analysisResult) {
     return (
       <div className="space-y-4">
-        <p className="text-muted-foreground">Loading analysis results...</p>
+        <p className="text-muted-foreground">
+          No analysis yet. Configure variation groups first.
+        </p>
         <Button onClick={() => setLocation("/configure")}>Go to Configure</Button>
       </div>
     );
   }
 
+  const activeGroup =
+    analysisResult.groups.find((g) => g.id === activeGroupId) ||
+    analysisResult.groups[0];
+
+  const handleCopyTable = async () => {
+    try {
+      await copySheetToClipboard(
+        buildResultsSheet(analysisResult, {
+          vocabulary: state.configuration?.cellVocabulary,
+          activeGroupId: activeGroup?.id ?? 0,
+          includeLegend: false,
+        })
+      );
+      toast.success("Table copied to clipboard");
+    } catch (error) {
+      toast.error("Failed to copy table");
+      console.error(error);
+    }
+  };
+
   return (
     <div className="space-y-8">
       {/* Title */}
@@ -139,7 +78,7 @@ export default function AnalyzePage() {
         <Card className="p-6">
           <p className="text-sm text-muted-foreground mb-2">Variation Groups</p>
           <p className="text-3xl font-semibold text-primary">
-            {analysisResult.variationGroups.length}
+            {analysisResult.groups.length}
           </p>
         </Card>
         <Card className="p-6">
@@ -155,138 +94,85 @@ export default function AnalyzePage() {
           </p>
         </Card>
         <Card className="p-6">
-          <p className="text-sm text-muted-foreground mb-2">
-            Variation Groups Legend
+          <p className="text-sm text-muted-foreground mb-2">Variations</p>
+          <p className="text-3xl font-semibold text-primary">
+            {activeGroup?.patterns.length || 0}
           </p>
-          <div className="flex flex-wrap gap-2">
-            {analysisResult.variationGroups.map((group) => (
-              <div
-                key={group.id}
-                className="w-4 h-4 rounded"
-                style={{ backgroundColor: group.color }}
-                title={group.name}
-              />
-            ))}
-          </div>
         </Card>
       </div>
 
+      {/* Variation Group Tabs */}
+      <div className="flex flex-wrap gap-2">
+        {analysisResult.groups.map((group) => (
+          <button
+            key={group.id}
+            onClick={() => setActiveGroupId(group.id)}
+            className={`px-4 py-2 rounded-lg border transition-colors ${
+              activeGroup?.id === group.id
+                ? "border-primary bg-primary/10 text-primary"
+                : "border-border bg-background text-foreground hover:border-primary/50"
+            }`}
+          >
+            {group.name}
+          </button>
+        ))}
+      </div>
+
       {/* Results Table */}
       <Card className="p-6 overflow-x-auto">
-        <h3 className="font-semibold text-foreground mb-4">Variation Analysis</h3>
-
-        <div className="overflow-x-auto border border-border rounded-lg">
-          <table className="w-full text-sm border-collapse">
-            <thead>
-              <tr className="bg-muted">
-                <th className="border border-border px-3 py-2 text-left font-medium text-foreground sticky left-0 bg-muted w-32">
-                  Feature
-                </th>
-                <th className="border border-border px-3 py-2 text-left font-medium text-foreground sticky left-32 bg-muted w-32">
-                  Item
-                </th>
-                {analysisResult.columnPatterns.map((cp) => {
-                  const group = analysisResult.variationGroups.find(
-                    (g) => g.id === cp.variationGroup
-                  );
-                  return (
-                    <th
-                      key={cp.columnLetter}
-                      className="border border-border px-3 py-2 text-center font-medium text-xs min-w-12"
-                      style={{
-                        backgroundColor: group?.color || "#f5f5f5",
-                        color: "#000",
-                      }}
-                      title={`${cp.gradeName} (${group?.name})`}
-                    >
-                      <div className="font-semibold">{cp.columnLetter}</div>
-                      <div className="text-xs font-normal">{cp.gradeName}</div>
-                    </th>
-                  );
-                })}
-              </tr>
-            </thead>
-            <tbody>
-              {analysisResult.featureRows.map((row, idx) => (
-                <tr key={idx} className="hover:bg-muted/50">
-                  <td className="border border-border px-3 py-2 font-medium text-foreground sticky left-0 bg-background w-32">
-                    {row.feature}
-                  </td>
-                  <td className="border border-border px-3 py-2 text-muted-foreground sticky left-32 bg-background w-32">
-                    {row.item}
-                  </td>
-                  {row.values.map((value, colIdx) => {
-                    const cp = analysisResult.columnPatterns[colIdx];
-                    const group = analysisResult.variationGroups.find(
-                      (g) => g.id === cp?.variationGroup
-                    );
-                    const isApplied = value === "O" || value === "o";
-                    
-                    return (
-                      <td
-                        key={colIdx}
-                        className="border border-border px-3 py-2 text-center font-medium min-w-12"
-                        style={{
-                          backgroundColor: isApplied
-                            ? group?.color || "#f5f5f5"
-                            : "#ffffff",
-                          opacity: isApplied ? 1 : 0.5,
-                        }}
-                      >
-                        {value}
-                      </td>
-                    );
-                  })}
-                </tr>
-              ))}
-            </tbody>
-          </table>
+        <div className="flex items-center justify-between mb-4">
+          <h3 className="font-semibold text-foreground">Variation Analysis</h3>
+          <Button variant="outline" size="sm" onClick={handleCopyTable}>
+            <Copy className="w-4 h-4 mr-2" />
+            Copy
+          </Button>
         </div>
+        <VariationResultsTable
+          analysis={analysisResult}
+          activeGroupId={activeGroup?.id ?? 0}
+        />
       </Card>
 
-      {/* Variation Groups Legend */}
-      <Card className="p-6 space-y-4">
-        <h3 className="font-semibold text-foreground">Variation Groups</h3>
-
-        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-          {analysisResult.variationGroups.map((group) => {
-            const columnCount = analysisResult.columnPatterns.filter(
-              (cp) => cp.variationGroup === group.id
-            ).length;
+      {/* Variations Legend */}
+      {activeGroup && (
+        <Card className="p-6 space-y-4">
+          <h3 className="font-semibold text-foreground">{activeGroup.name}</h3>
 
-            return (
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            {activeGroup.patterns.map((pattern) => (
               <div
-                key={group.id}
+                key={pattern.id}
                 className="p-4 border border-border rounded-lg flex items-start gap-3"
               >
                 <div
-                  className="w-6 h-6 rounded flex-shrink-0 mt-1"
-                  style={{ backgroundColor: group.color }}
-                />
-                <div className="flex-1">
-                  <p className="font-medium text-foreground">{group.name}</p>
+                  className="w-6 h-6 rounded flex-shrink-0 mt-1 flex items-center justify-center text-xs font-semibold"
+                  style={{ backgroundColor: pattern.color }}
+                >
+                  {pattern.id}
+                </div>
+                <div className="flex-1 space-y-1">
+                  <p className="font-medium text-foreground">
+                    Variation {pattern.id}
+                  </p>
                   <p className="text-xs text-muted-foreground">
-                    {columnCount} column{columnCount !== 1 ? "s" : ""}
+                    {pattern.columns.length} column
+                    {pattern.columns.length !== 1 ? "s" : ""}:{" "}
+                    {pattern.columns.join(", ")}
+                  </p>
+                  <p className="text-xs text-foreground">
+                    {pattern.itemNames.length > 0
+                      ? pattern.itemNames.join(", ")
+                      : "No selected items applied"}
                   </p>
                 </div>
               </div>
-            );
-          })}
-        </div>
-      </Card>
+            ))}
+          </div>
+        </Card>
+      )}
 
       {/* Export */}
-      <Card className="p-6">
-        <h3 className="font-semibold text-foreground mb-4">Export Results</h3>
-        <Button
-          className="w-full"
-          onClick={handleExportResults}
-          disabled={exporting}
-        >
-          <Download className="w-4 h-4 mr-2" />
-          {exporting ? "Exporting..." : "Export to Excel"}
-        </Button>
-      </Card>
+      <ExportPanel analysis={analysisResult} activeGroupId={activeGroupId} />
 
       {/* Actions */}
       <div className="flex justify-between pt-4">
@@ -2,60 +2,137 @@
  * Design Philosophy: Formal Minimal
  * - Multi-step variation group configuration
  * - Feature and item selection per group
- * - Real-time search with limited display
+ * - Real-time search over every feature, virtualized
  */
 
 import { useState, useEffect, useMemo } from "react";
 import { Button } from "@/components/ui/button";
 import { Card } from "@/components/ui/card";
 import { Input } from "@/components/ui/input";
-import { Checkbox } from "@/components/ui/checkbox";
 import { Badge } from "@/components/ui/badge";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
 import { toast } from "sonner";
+import SheetPreview, { type SheetLayout } from "@/components/SheetPreview";
+import FeaturePicker from "@/components/FeaturePicker";
+import PartitionPreview from "@/components/PartitionPreview";
 import { useProject } from "@/contexts/ProjectContext";
 import { useLocation } from "wouter";
-import { extractFeatures } from "@/lib/variationUtils";
-import type { Feature } from "@/lib/types";
+import {
+  analyzeVariations,
+  buildFeatureMatrix,
+  detectMetadataRows,
+  extractFeatures,
+  CELL_STATE_LABELS,
+  METADATA_FIELDS,
+  DEFAULT_CELL_VOCABULARY,
+} from "@shared/variationUtils";
+import type {
+  CellState,
+  CellVocabulary,
+  Feature,
+  LabelStyle,
+  MetadataField,
+  MetadataRows,
+  VariationGroupConfig,
+} from "@shared/types";
 import { X, Plus } from "lucide-react";
 
-interface VariationGroupConfig {
-  id: string;
-  name: string;
-  selectedFeatures: { [featureName: string]: string[] };
+function vocabularyToEntries(vocabulary: CellVocabulary) {
+  return Object.entries(vocabulary).map(([symbol, state]) => ({
+    symbol,
+    state,
+  }));
+}
+
+function entriesToVocabulary(
+  entries: Array<{ symbol: string; state: CellState }>
+): CellVocabulary {
+  const vocabulary: CellVocabulary = {};
+  for (const entry of entries) {
+    const symbol = entry.symbol.trim();
+    if (symbol) vocabulary[symbol] = entry.state;
+  }
+  return vocabulary;
 }
 
 export default function ConfigurePage() {
   const [, setLocation] = useLocation();
-  const { state, setImportedData, setConfiguration } = useProject();
+  const {
+    state,
+    setImportedData,
+    setConfiguration,
+    setVariationAnalysis,
+    setVariationGroups: setProjectGroups,
+  } = useProject();
 
   // Column settings
   const [featureColumn, setFeatureColumn] = useState("M");
   const [itemColumn, setItemColumn] = useState("N");
   const [startRow, setStartRow] = useState(19);
   const [startDataColumn, setStartDataColumn] = useState("V");
+  const [labelStyle, setLabelStyle] = useState<LabelStyle>("letters");
+  const [metadataOverrides, setMetadataOverrides] = useState<MetadataRows>({});
+
+  // Cell symbol vocabulary (edited as ordered entries)
+  const [cellSymbols, setCellSymbols] = useState<
+    Array<{ symbol: string; state: CellState }>
+  >(vocabularyToEntries(DEFAULT_CELL_VOCABULARY));
 
   // Available features from data
   const [allFeatures, setAllFeatures] = useState<Feature[]>([]);
 
-  // Variation groups configuration
+  // Variation groups configuration, restored from the project
   const [variationGroups, setVariationGroups] = useState<VariationGroupConfig[]>(
-    []
+    state.variationGroups
+  );
+  const [activeGroupId, setActiveGroupId] = useState<string | null>(
+    state.variationGroups[0]?.id || null
   );
-  const [activeGroupId, setActiveGroupId] = useState<string | null>(null);
 
   // Search
   const [searchQuery, setSearchQuery] = useState("");
 
-  // Initialize from state if available (persist data)
+  const detectedLayout = state.importedData?.detectedLayout || null;
+
+  // Apply the layout proposed by the detector
+  const applyDetectedLayout = () => {
+    if (!detectedLayout) return;
+    setFeatureColumn(detectedLayout.featureColumn);
+    setItemColumn(detectedLayout.itemColumn);
+    setStartRow(detectedLayout.startRow);
+    setStartDataColumn(detectedLayout.startDataColumn);
+  };
+
+  // Initialize from state if available (persist data), else detected layout
   useEffect(() => {
-    if (state.configuration) {
+    if (!state.configuration) {
+      applyDetectedLayout();
+    } else {
       setFeatureColumn(state.configuration.featureColumn || "M");
-      setItemColumn((state.configuration as any).itemColumn || "N");
+      setItemColumn(state.configuration.itemColumn || "N");
       setStartRow(state.configuration.startRow || 19);
       setStartDataColumn(state.configuration.startDataColumn || "V");
+      setLabelStyle(state.configuration.labelStyle || "letters");
+      setMetadataOverrides(state.configuration.metadataRows || {});
+      if (state.configuration.cellVocabulary) {
+        setCellSymbols(vocabularyToEntries(state.configuration.cellVocabulary));
+      }
     }
   }, []);
 
+  // Keep group edits in the project so they survive a reload
+  useEffect(() => {
+    if (variationGroups !== state.variationGroups) {
+      setProjectGroups(variationGroups);
+    }
+  }, [variationGroups]);
+
   // Re-extract features when column settings change
   useEffect(() => {
     if (state.importedData && state.importedData.rawData) {
@@ -74,26 +151,59 @@ export default function ConfigurePage() {
         toast.error("Failed to extract features");
       }
     }
-  }, [featureColumn, startRow, state.importedData]);
-
-  // Filter features based on search - limit to 16 features (4x4 grid)
-  const filteredFeatures = useMemo(() => {
-    let features = allFeatures;
-
-    if (searchQuery) {
-      const query = searchQuery.toLowerCase();
-      features = allFeatures
-        .filter((f) => f.name.toLowerCase().includes(query))
-        .map((feature) => ({
-          ...feature,
-          items: feature.items.filter((item) =>
-            item.name.toLowerCase().includes(query)
-          ),
-        }));
-    }
+  }, [featureColumn, itemColumn, startRow, state.importedData]);
+
+  // Metadata rows found by label (shown when no override is set)
+  const detectedMetadataRows = useMemo(() => {
+    if (!state.importedData) return {};
+    return detectMetadataRows(state.importedData.rawData, {
+      startRow,
+      startDataColumn,
+    });
+  }, [state.importedData, startRow, startDataColumn]);
 
-    return features.slice(0, 16);
-  }, [allFeatures, searchQuery]);
+  const cellVocabulary = useMemo(
+    () => entriesToVocabulary(cellSymbols),
+    [cellSymbols]
+  );
+
+  // Sheet parsed once per layout, reused by the preview and the analysis
+  const featureMatrix = useMemo(() => {
+    const columnPattern = /^[A-Z]{1,3}$/;
+    if (
+      !state.importedData ||
+      !columnPattern.test(featureColumn) ||
+      !columnPattern.test(itemColumn) ||
+      !columnPattern.test(startDataColumn) ||
+      !(startRow > 0)
+    ) {
+      return null;
+    }
+    return buildFeatureMatrix(
+      state.importedData.rawData,
+      { featureColumn, itemColumn, startRow, startDataColumn },
+      cellVocabulary
+    );
+  }, [
+    state.importedData,
+    featureColumn,
+    itemColumn,
+    startRow,
+    startDataColumn,
+    cellVocabulary,
+  ]);
+
+  // Set or clear a metadata row override
+  const handleUpdateMetadataRow = (field: MetadataField, value: string) => {
+    const rowNumber = parseInt(value);
+    const updated = { ...metadataOverrides };
+    if (rowNumber > 0) {
+      updated[field] = rowNumber;
+    } else {
+      delete updated[field];
+    }
+    setMetadataOverrides(updated);
+  };
 
   // Get active group
   const activeGroup = variationGroups.find((g) => g.id === activeGroupId);
@@ -200,6 +310,26 @@ export default function ConfigurePage() {
     );
   };
 
+  // Apply a layout change picked in the sheet preview
+  const handleLayoutChange = (update: Partial<SheetLayout>) => {
+    if (update.featureColumn) setFeatureColumn(update.featureColumn);
+    if (update.itemColumn) setItemColumn(update.itemColumn);
+    if (update.startRow) setStartRow(update.startRow);
+    if (update.startDataColumn) setStartDataColumn(update.startDataColumn);
+  };
+
+  // Update one cell symbol entry
+  const handleUpdateCellSymbol = (
+    index: number,
+    update: Partial<{ symbol: string; state: CellState }>
+  ) => {
+    setCellSymbols(
+      cellSymbols.map((entry, i) =>
+        i === index ? { ...entry, ...update } : entry
+      )
+    );
+  };
+
   const handleContinue = () => {
     if (variationGroups.length === 0) {
       toast.error("Please create at least one variation group");
@@ -216,6 +346,29 @@ export default function ConfigurePage() {
     }
 
     if (state.importedData) {
+      try {
+        setVariationAnalysis(
+          analyzeVariations(
+            state.importedData.rawData,
+            {
+              featureColumn,
+              itemColumn,
+              startRow,
+              startDataColumn,
+              cellVocabulary,
+              labelStyle,
+              metadataRows: metadataOverrides,
+            },
+            variationGroups,
+            featureMatrix || undefined
+          )
+        );
+      } catch (error) {
+        console.error("Failed to analyze variations:", error);
+        toast.error("Failed to analyze variations");
+        return;
+      }
+
       setImportedData({
         ...state.importedData,
         features: allFeatures,
@@ -228,10 +381,10 @@ export default function ConfigurePage() {
       startRow,
       startDataColumn,
       selectedFeatures: [],
-    } as any);
-
-    // Save variation groups to session storage for Analyze page
-    sessionStorage.setItem("variationGroups", JSON.stringify(variationGroups));
+      cellVocabulary,
+      labelStyle,
+      metadataRows: metadataOverrides,
+    });
 
     setLocation("/analyze");
   };
@@ -261,8 +414,28 @@ export default function ConfigurePage() {
 
       {/* Column Settings */}
       <Card className="p-6 space-y-4">
-        <h3 className="font-semibold text-foreground">Column Settings</h3>
-        <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+        <div className="flex items-center justify-between gap-4">
+          <h3 className="font-semibold text-foreground">Column Settings</h3>
+          {detectedLayout && (
+            <div className="flex items-center gap-2 text-xs text-muted-foreground">
+              <span>
+                Detected: {detectedLayout.featureColumn}/
+                {detectedLayout.itemColumn}, row {detectedLayout.startRow},
+                data from {detectedLayout.startDataColumn}
+              </span>
+              <Badge variant="secondary">
+                {Math.round(detectedLayout.confidence * 100)}% confidence
+              </Badge>
+              <button
+                onClick={applyDetectedLayout}
+                className="text-primary hover:underline"
+              >
+                Apply
+              </button>
+            </div>
+          )}
+        </div>
+        <div className="grid grid-cols-2 md:grid-cols-5 gap-4">
           <div>
             <label className="block text-sm font-medium text-foreground mb-2">
               Feature Column
@@ -307,7 +480,144 @@ export default function ConfigurePage() {
               maxLength={2}
             />
           </div>
+          <div>
+            <label className="block text-sm font-medium text-foreground mb-2">
+              Variation Labels
+            </label>
+            <Select
+              value={labelStyle}
+              onValueChange={(value) => setLabelStyle(value as LabelStyle)}
+            >
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="letters">A, B … Z, AA</SelectItem>
+                <SelectItem value="numbers">1, 2, 3 …</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
         </div>
+
+        <h4 className="text-sm font-medium text-foreground pt-2">
+          Metadata Rows
+        </h4>
+        <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+          {METADATA_FIELDS.map(({ field, title }) => {
+            const detectedRow = detectedMetadataRows[field];
+            return (
+              <div key={field}>
+                <label className="block text-sm font-medium text-foreground mb-2">
+                  {title}
+                </label>
+                <Input
+                  type="number"
+                  value={metadataOverrides[field] ?? ""}
+                  onChange={(e) =>
+                    handleUpdateMetadataRow(field, e.target.value)
+                  }
+                  placeholder={
+                    detectedRow ? `Auto (row ${detectedRow})` : "Not found"
+                  }
+                />
+              </div>
+            );
+          })}
+        </div>
+      </Card>
+
+      {/* Sheet Preview */}
+      <Card className="p-6 space-y-4">
+        <div className="flex items-center justify-between">
+          <h3 className="font-semibold text-foreground">Sheet Preview</h3>
+          <p className="text-xs text-muted-foreground">
+            {state.importedData.sheetName}
+          </p>
+        </div>
+        <SheetPreview
+          rawData={state.importedData.rawData}
+          layout={{ featureColumn, itemColumn, startRow, startDataColumn }}
+          onLayoutChange={handleLayoutChange}
+        />
+        <div className="p-3 bg-primary/5 border border-primary/20 rounded-lg">
+          <p className="text-xs font-medium text-primary mb-2">
+            {allFeatures.length} feature{allFeatures.length !== 1 ? "s" : ""}{" "}
+            extracted
+          </p>
+          <p className="text-xs text-foreground line-clamp-2">
+            {allFeatures.length > 0
+              ? allFeatures
+                  .map((f) => `${f.name} (${f.items.length})`)
+                  .join(", ")
+              : "No features found with the current settings"}
+          </p>
+        </div>
+      </Card>
+
+      {/* Cell Symbols */}
+      <Card className="p-6 space-y-4">
+        <div className="flex items-center justify-between">
+          <h3 className="font-semibold text-foreground">Cell Symbols</h3>
+          <button
+            onClick={() =>
+              setCellSymbols(vocabularyToEntries(DEFAULT_CELL_VOCABULARY))
+            }
+            className="text-xs text-primary hover:underline"
+          >
+            Reset to defaults
+          </button>
+        </div>
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+          {cellSymbols.map((entry, index) => (
+            <div key={index} className="flex items-center gap-2">
+              <Input
+                value={entry.symbol}
+                onChange={(e) =>
+                  handleUpdateCellSymbol(index, { symbol: e.target.value })
+                }
+                placeholder="Symbol"
+                className="w-20"
+              />
+              <Select
+                value={entry.state}
+                onValueChange={(value) =>
+                  handleUpdateCellSymbol(index, { state: value as CellState })
+                }
+              >
+                <SelectTrigger className="flex-1">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {(Object.keys(CELL_STATE_LABELS) as CellState[]).map(
+                    (cellState) => (
+                      <SelectItem key={cellState} value={cellState}>
+                        {CELL_STATE_LABELS[cellState]}
+                      </SelectItem>
+                    )
+                  )}
+                </SelectContent>
+              </Select>
+              <button
+                onClick={() =>
+                  setCellSymbols(cellSymbols.filter((_, i) => i !== index))
+                }
+                className="text-muted-foreground hover:text-destructive"
+              >
+                <X className="w-4 h-4" />
+              </button>
+            </div>
+          ))}
+        </div>
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={() =>
+            setCellSymbols([...cellSymbols, { symbol: "", state: "applies" }])
+          }
+        >
+          <Plus className="w-4 h-4 mr-2" />
+          Add Symbol
+        </Button>
       </Card>
 
       {/* Variation Groups Tabs */}
@@ -352,132 +662,67 @@ export default function ConfigurePage() {
         </div>
       )}
 
-      {/* Active Group Configuration */}
+      {/* Active Group Configuration with live preview */}
       {activeGroup && (
-        <Card className="p-6 space-y-6">
-          {/* Group Name */}
-          <div>
-            <label className="block text-sm font-medium text-foreground mb-2">
-              Variation Group Name
-            </label>
-            <Input
-              value={activeGroup.name}
-              onChange={(e) => handleUpdateGroupName(activeGroupId!, e.target.value)}
-              placeholder="e.g., Base, Premium, Enterprise"
-            />
-          </div>
-
-          {/* Search */}
-          <div>
-            <label className="block text-sm font-medium text-foreground mb-2">
-              Search Features
-            </label>
-            <Input
-              placeholder="Type to search features..."
-              value={searchQuery}
-              onChange={(e) => setSearchQuery(e.target.value)}
-            />
-          </div>
+        <div className="grid grid-cols-1 lg:grid-cols-[minmax(0,1fr)_18rem] gap-6 items-start">
+          <Card className="p-6 space-y-6 min-w-0">
+            {/* Group Name */}
+            <div>
+              <label className="block text-sm font-medium text-foreground mb-2">
+                Variation Group Name
+              </label>
+              <Input
+                value={activeGroup.name}
+                onChange={(e) => handleUpdateGroupName(activeGroupId!, e.target.value)}
+                placeholder="e.g., Base, Premium, Enterprise"
+              />
+            </div>
 
-          {/* Selected Features Summary */}
-          {Object.keys(activeGroup.selectedFeatures).length > 0 && (
-            <div className="p-3 bg-primary/5 border border-primary/20 rounded-lg">
-              <p className="text-xs font-medium text-primary mb-2">
-                📌 Selected Features:
-              </p>
-              <div className="flex flex-wrap gap-2">
-                {Object.keys(activeGroup.selectedFeatures).map((fname) => (
-                  <Badge key={fname} variant="secondary" className="text-xs">
-                    ✓ {fname}
-                  </Badge>
-                ))}
-              </div>
+            {/* Search */}
+            <div>
+              <label className="block text-sm font-medium text-foreground mb-2">
+                Search Features
+              </label>
+              <Input
+                placeholder="Type to search features or items..."
+                value={searchQuery}
+                onChange={(e) => setSearchQuery(e.target.value)}
+              />
             </div>
-          )}
 
-          {/* Features List - Grid Layout with Limited Display */}
-          <div className="space-y-3">
-            <p className="text-sm font-medium text-muted-foreground">
-              Available Features ({filteredFeatures.length} shown)
-            </p>
-
-            {filteredFeatures.length === 0 ? (
-              <p className="text-sm text-muted-foreground italic">
-                No features found
-              </p>
-            ) : (
-              <div className="grid grid-cols-1 md:grid-cols-2 gap-3 max-h-96 overflow-y-auto border border-border rounded-lg p-3 bg-background/50">
-                {filteredFeatures.map((feature) => {
-                  const isSelected = activeGroup.selectedFeatures[feature.name];
-                  const selectedItems = isSelected || [];
-
-                  return (
-                    <Card key={feature.name} className="p-3 relative">
-                      {/* Feature Header */}
-                      <div className="flex items-center gap-2 mb-2">
-                        <Checkbox
-                          checked={!!isSelected}
-                          onCheckedChange={() => handleToggleFeature(feature.name)}
-                        />
-                        <h4 className="font-medium text-sm text-foreground flex-1">
-                          {feature.name}
-                        </h4>
-                        {isSelected && (
-                          <Badge
-                            variant="outline"
-                            className="text-xs bg-primary/10 text-primary border-primary/30"
-                          >
-                            ✓
-                          </Badge>
-                        )}
-                      </div>
-
-                      {/* Items List */}
-                      {isSelected && feature.items.length > 0 && (
-                        <>
-                          {/* Quick Actions */}
-                          <div className="flex gap-2 mb-2 text-xs">
-                            <button
-                              onClick={() => handleSelectAllItems(feature.name)}
-                              className="text-primary hover:underline"
-                            >
-                              All
-                            </button>
-                            <span className="text-muted-foreground">•</span>
-                            <button
-                              onClick={() => handleDeselectAllItems(feature.name)}
-                              className="text-primary hover:underline"
-                            >
-                              None
-                            </button>
-                          </div>
-
-                          {/* Items */}
-                          <div className="ml-4 space-y-1 max-h-32 overflow-y-auto">
-                            {feature.items.map((item) => (
-                              <div key={item.name} className="flex items-center gap-2">
-                                <Checkbox
-                                  checked={selectedItems.includes(item.name)}
-                                  onCheckedChange={() =>
-                                    handleToggleItem(feature.name, item.name)
-                                  }
-                                  className="w-3 h-3"
-                                />
-                                <span className="text-xs text-foreground">
-                                  {item.name}
-                                </span>
-                              </div>
-                            ))}
-                          </div>
-                        </>
-                      )}
-                    </Card>
-                  );
-                })}
+            {/* Selected Features Summary */}
+            {Object.keys(activeGroup.selectedFeatures).length > 0 && (
+              <div className="p-3 bg-primary/5 border border-primary/20 rounded-lg">
+                <p className="text-xs font-medium text-primary mb-2">
+                  📌 Selected Features:
+                </p>
+                <div className="flex flex-wrap gap-2">
+                  {Object.keys(activeGroup.selectedFeatures).map((fname) => (
+                    <Badge key={fname} variant="secondary" className="text-xs">
+                      ✓ {fname}
+                    </Badge>
+                  ))}
+                </div>
               </div>
             )}
-          </div>
-        </Card>
+
+            {/* Features List */}
+            <FeaturePicker
+              features={allFeatures}
+              selectedFeatures={activeGroup.selectedFeatures}
+              searchQuery={searchQuery}
+              onToggleFeature={handleToggleFeature}
+              onToggleItem={handleToggleItem}
+              onSelectAllItems={handleSelectAllItems}
+              onDeselectAllItems={handleDeselectAllItems}
+            />
+          </Card>
+          <PartitionPreview
+            matrix={featureMatrix}
+            group={activeGroup}
+            labelStyle={labelStyle}
+          />
+        </div>
       )}
 
       {/* Empty State */}
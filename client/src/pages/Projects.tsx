@@ -0,0 +1,198 @@
+/**
+ * Design Philosophy: Formal Minimal
+ * - Saved projects, most recent first
+ * - Create, rename, duplicate, delete and switch
+ */
+
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Card } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from "@/components/ui/alert-dialog";
+import { toast } from "sonner";
+import { Copy, Plus, Trash2 } from "lucide-react";
+import { useProject } from "@/contexts/ProjectContext";
+import { useLocation } from "wouter";
+import type { ProjectSummary } from "@/lib/projectStore";
+import type { ProjectState } from "@shared/types";
+
+// Furthest step the project has reached
+function pathForState(state: ProjectState) {
+  if (state.variationAnalysis) return "/results";
+  if (state.importedData) return "/configure";
+  return "/";
+}
+
+function describeProject(project: ProjectSummary) {
+  const parts = [
+    project.fileName || (project.sheetName ? "Pasted range" : "No data"),
+  ];
+  if (project.sheetName) parts.push(project.sheetName);
+  parts.push(
+    `${project.groupCount} variation group${project.groupCount !== 1 ? "s" : ""}`
+  );
+  parts.push(`updated ${new Date(project.updatedAt).toLocaleString()}`);
+  return parts.join(" · ");
+}
+
+export default function ProjectsPage() {
+  const [, setLocation] = useLocation();
+  const {
+    projects,
+    activeProject,
+    createProject,
+    switchProject,
+    renameProject,
+    duplicateProject,
+    deleteProject,
+  } = useProject();
+  const [draftNames, setDraftNames] = useState<Record<string, string>>({});
+
+  const run = async (action: () => Promise<void>, failureMessage: string) => {
+    try {
+      await action();
+    } catch (error) {
+      toast.error(failureMessage);
+      console.error(error);
+    }
+  };
+
+  const handleCreate = () =>
+    run(async () => {
+      await createProject();
+      setLocation("/");
+    }, "Failed to create project");
+
+  const handleOpen = (id: string) =>
+    run(async () => {
+      setLocation(pathForState(await switchProject(id)));
+    }, "Failed to open project");
+
+  const handleRename = (project: ProjectSummary) => {
+    const name = draftNames[project.id]?.trim();
+    setDraftNames(({ [project.id]: _, ...rest }) => rest);
+    if (!name || name === project.name) return;
+    run(() => renameProject(project.id, name), "Failed to rename project");
+  };
+
+  const handleDuplicate = (project: ProjectSummary) =>
+    run(async () => {
+      await duplicateProject(project.id);
+      toast.success(`Duplicated: ${project.name}`);
+    }, "Failed to duplicate project");
+
+  const handleDelete = (project: ProjectSummary) =>
+    run(async () => {
+      await deleteProject(project.id);
+      toast.success(`Deleted: ${project.name}`);
+    }, "Failed to delete project");
+
+  return (
+    <div className="space-y-8">
+      {/* Title */}
+      <div className="flex items-end justify-between gap-4">
+        <div className="space-y-2">
+          <h2 className="text-3xl font-semibold text-foreground">Projects</h2>
+          <p className="text-muted-foreground">
+            Each project keeps its own file, layout, variation groups and
+            results
+          </p>
+        </div>
+        <Button onClick={handleCreate}>
+          <Plus className="w-4 h-4 mr-2" />
+          New Project
+        </Button>
+      </div>
+
+      {/* Project List */}
+      <div className="space-y-3">
+        {projects.map((project) => {
+          const isActive = project.id === activeProject?.id;
+
+          return (
+            <Card
+              key={project.id}
+              className={`p-4 flex items-center gap-4 ${
+                isActive ? "border-primary" : ""
+              }`}
+            >
+              <div className="flex-1 min-w-0 space-y-1">
+                <div className="flex items-center gap-2">
+                  <Input
+                    value={draftNames[project.id] ?? project.name}
+                    onChange={(e) =>
+                      setDraftNames((prev) => ({
+                        ...prev,
+                        [project.id]: e.target.value,
+                      }))
+                    }
+                    onBlur={() => handleRename(project)}
+                    onKeyDown={(e) => {
+                      if (e.key === "Enter") e.currentTarget.blur();
+                    }}
+                    className="max-w-sm font-medium"
+                  />
+                  {isActive && <Badge variant="secondary">Active</Badge>}
+                </div>
+                <p className="text-sm text-muted-foreground truncate">
+                  {describeProject(project)}
+                </p>
+              </div>
+              <Button
+                variant={isActive ? "default" : "outline"}
+                onClick={() => handleOpen(project.id)}
+              >
+                Open
+              </Button>
+              <Button
+                variant="outline"
+                size="icon"
+                onClick={() => handleDuplicate(project)}
+                aria-label="Duplicate project"
+              >
+                <Copy className="w-4 h-4" />
+              </Button>
+              <AlertDialog>
+                <AlertDialogTrigger asChild>
+                  <Button
+                    variant="outline"
+                    size="icon"
+                    aria-label="Delete project"
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </Button>
+                </AlertDialogTrigger>
+                <AlertDialogContent>
+                  <AlertDialogHeader>
+                    <AlertDialogTitle>Delete {project.name}?</AlertDialogTitle>
+                    <AlertDialogDescription>
+                      The uploaded file, variation groups and results of this
+                      project are removed from this browser.
+                    </AlertDialogDescription>
+                  </AlertDialogHeader>
+                  <AlertDialogFooter>
+                    <AlertDialogCancel>Cancel</AlertDialogCancel>
+                    <AlertDialogAction onClick={() => handleDelete(project)}>
+                      Delete
+                    </AlertDialogAction>
+                  </AlertDialogFooter>
+                </AlertDialogContent>
+              </AlertDialog>
+            </Card>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
@@ -3,12 +3,17 @@
  * - Simple file upload interface
  * - Drag & drop support
  * - Worksheet selection
+ * - Paste a copied range instead of a file
+ * - Resume the active project or start a new one
  */
 
-import { useState, useCallback } from "react";
+import { useState, useCallback, type ClipboardEvent } from "react";
 import { useDropzone } from "react-dropzone";
 import { Button } from "@/components/ui/button";
 import { Card } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Progress } from "@/components/ui/progress";
+import { Textarea } from "@/components/ui/textarea";
 import {
   Select,
   SelectContent,
@@ -17,32 +22,48 @@ import {
   SelectValue,
 } from "@/components/ui/select";
 import { toast } from "sonner";
-import { Upload } from "lucide-react";
+import { ClipboardPaste, History, Upload } from "lucide-react";
 import {
-  readExcelFile,
-  readExcelSheet,
-  getExcelSheetNames,
+  loadSheetGrid,
+  loadWorkbook,
+  type LoadedWorkbook,
+  type LoadProgress,
 } from "@/lib/excelUtils";
-import { extractFeatures } from "@/lib/variationUtils";
+import { clipboardDataToGrid } from "@/lib/clipboardUtils";
+import { anchorGrid, importSheet } from "@shared/workbookUtils";
 import { useProject } from "@/contexts/ProjectContext";
 import { useLocation } from "wouter";
 
+const PROGRESS_LABELS: Record<LoadProgress["stage"], string> = {
+  reading: "Reading file...",
+  parsing: "Parsing workbook...",
+  converting: "Loading sheet...",
+};
+
 export default function UploadPage() {
   const [, setLocation] = useLocation();
-  const { setImportedData, setSelectedSheet } = useProject();
+  const { state, activeProject, importData, createProject } = useProject();
   const [file, setFile] = useState<File | null>(null);
+  const [workbook, setWorkbook] = useState<LoadedWorkbook | null>(null);
+  const [progress, setProgress] = useState<LoadProgress | null>(null);
   const [sheets, setSheets] = useState<string[]>([]);
   const [selectedSheet, setSelectedSheetLocal] = useState<string>("F-List");
   const [loading, setLoading] = useState(false);
+  const [pastedGrid, setPastedGrid] = useState<any[][] | null>(null);
+  const [pasteAnchor, setPasteAnchor] = useState("A1");
 
   const onDrop = useCallback(async (acceptedFiles: File[]) => {
     if (acceptedFiles.length === 0) return;
 
     const file = acceptedFiles[0];
     setFile(file);
+    setWorkbook(null);
+    setSheets([]);
 
     try {
-      const sheetNames = await getExcelSheetNames(file);
+      const loaded = await loadWorkbook(file, setProgress);
+      const sheetNames = loaded.sheetNames;
+      setWorkbook(loaded);
       setSheets(sheetNames);
 
       // Auto-select F-List if exists, otherwise first sheet
@@ -54,8 +75,10 @@ export default function UploadPage() {
 
       toast.success(`File loaded: ${file.name}`);
     } catch (error) {
-      toast.error("Failed to read Excel file");
+      toast.error("Failed to read spreadsheet");
       console.error(error);
+    } finally {
+      setProgress(null);
     }
   }, []);
 
@@ -67,12 +90,15 @@ export default function UploadPage() {
       ],
       "application/vnd.ms-excel": [".xls"],
       "application/vnd.ms-excel.sheet.macroEnabled.12": [".xlsm"],
+      "application/vnd.oasis.opendocument.spreadsheet": [".ods"],
+      "text/csv": [".csv"],
+      "text/tab-separated-values": [".tsv"],
     },
     multiple: false,
   });
 
   const handleUpload = async () => {
-    if (!file || !selectedSheet) {
+    if (!workbook || !selectedSheet) {
       toast.error("Please select a file and sheet");
       return;
     }
@@ -80,22 +106,12 @@ export default function UploadPage() {
     setLoading(true);
 
     try {
-      const data = await readExcelSheet(file, selectedSheet);
-      const features = extractFeatures(data, {
-        featureColumn: "M",
-        itemColumn: "N",
-        startRow: 19,
+      const data = await loadSheetGrid(workbook, selectedSheet, setProgress);
+      importData(importSheet(data, selectedSheet), {
+        fileName: workbook.fileName,
+        data: workbook.data,
       });
 
-      setImportedData({
-        rawData: data,
-        headers: data[0] || [],
-        features,
-        sheetName: selectedSheet,
-      });
-
-      setSelectedSheet(selectedSheet);
-
       toast.success("Data loaded successfully");
       setLocation("/configure");
     } catch (error) {
@@ -103,19 +119,83 @@ export default function UploadPage() {
       console.error(error);
     } finally {
       setLoading(false);
+      setProgress(null);
+    }
+  };
+
+  const handlePaste = (event: ClipboardEvent<HTMLTextAreaElement>) => {
+    event.preventDefault();
+    const grid = clipboardDataToGrid(event.clipboardData);
+    if (grid.length === 0) {
+      toast.error("Clipboard does not contain a table");
+      return;
+    }
+    setPastedGrid(grid);
+  };
+
+  const handleUsePasted = () => {
+    if (!pastedGrid) return;
+
+    try {
+      const data = anchorGrid(pastedGrid, pasteAnchor);
+      importData(importSheet(data, "Pasted"), null);
+
+      toast.success("Pasted range loaded");
+      setLocation("/configure");
+    } catch (error) {
+      toast.error(
+        error instanceof Error ? error.message : "Failed to import pasted range"
+      );
+      console.error(error);
     }
   };
 
+  const handleStartNew = async () => {
+    try {
+      await createProject();
+    } catch (error) {
+      toast.error("Failed to create project");
+      console.error(error);
+    }
+  };
+
+  const handleResume = () => {
+    setLocation(state.variationAnalysis ? "/results" : "/configure");
+  };
+
   return (
     <div className="space-y-8">
       {/* Title */}
       <div className="space-y-2">
         <h2 className="text-3xl font-semibold text-foreground">Upload Data</h2>
         <p className="text-muted-foreground">
-          Select an Excel file to analyze variations
+          Select an Excel, ODS or CSV file to analyze variations
         </p>
       </div>
 
+      {/* Resume Last Project */}
+      {state.importedData && (
+        <Card className="p-6 flex items-center gap-4">
+          <History className="w-8 h-8 text-muted-foreground flex-shrink-0" />
+          <div className="flex-1 space-y-1">
+            <p className="font-medium text-foreground">
+              Resume {activeProject?.name || "Last Project"}
+            </p>
+            <p className="text-sm text-muted-foreground">
+              {state.sourceWorkbook?.fileName || "Pasted range"} ·{" "}
+              {state.importedData.sheetName} · {state.variationGroups.length}{" "}
+              variation group{state.variationGroups.length !== 1 ? "s" : ""}
+              {activeProject &&
+                ` · saved ${new Date(activeProject.updatedAt).toLocaleString()}`}
+            </p>
+          </div>
+          <Button variant="outline" onClick={handleStartNew}>
+            Start New
+          </Button>
+          <Button onClick={handleResume}>Resume</Button>
+        </Card>
+      )}
+
       {/* Upload Area */}
       <Card className="p-12 border-2 border-dashed border-border hover:border-primary/50 transition-colors">
         <div
@@ -136,7 +216,7 @@ export default function UploadPage() {
           ) : (
             <div className="space-y-2">
               <p className="font-medium text-foreground">
-                Drag and drop your Excel file here
+                Drag and drop your spreadsheet here
               </p>
               <p className="text-sm text-muted-foreground">
                 or click to browse
@@ -146,6 +226,16 @@ export default function UploadPage() {
         </div>
       </Card>
 
+      {/* Load Progress */}
+      {progress && (
+        <div className="space-y-2">
+          <Progress value={progress.percent} />
+          <p className="text-sm text-muted-foreground">
+            {PROGRESS_LABELS[progress.stage]}
+          </p>
+        </div>
+      )}
+
       {/* Sheet Selection */}
       {sheets.length > 0 && (
         <div className="space-y-3">
@@ -167,17 +257,56 @@ export default function UploadPage() {
         </div>
       )}
 
+      {/* Paste Range */}
+      <Card className="p-6 space-y-4">
+        <div className="flex items-center gap-2">
+          <ClipboardPaste className="w-5 h-5 text-muted-foreground" />
+          <h3 className="font-semibold text-foreground">Or Paste a Range</h3>
+        </div>
+        <Textarea
+          value=""
+          onChange={() => {}}
+          onPaste={handlePaste}
+          placeholder={
+            pastedGrid
+              ? `${pastedGrid.length} rows × ${pastedGrid[0]?.length || 0} columns pasted. Paste again to replace.`
+              : "Copy a range in Excel, click here and paste (Ctrl+V)"
+          }
+          className="h-20 resize-none"
+        />
+        <div className="flex items-end gap-3">
+          <div className="space-y-2">
+            <label className="block text-sm font-medium text-foreground">
+              Top-left Cell
+            </label>
+            <Input
+              value={pasteAnchor}
+              onChange={(e) => setPasteAnchor(e.target.value.toUpperCase())}
+              placeholder="A1"
+              className="w-28"
+            />
+          </div>
+          <p className="flex-1 text-sm text-muted-foreground">
+            Address of the first copied cell, so column letters match the
+            source sheet
+          </p>
+          <Button onClick={handleUsePasted} disabled={!pastedGrid}>
+            Use Pasted Range
+          </Button>
+        </div>
+      </Card>
+
       {/* Action Buttons */}
       <div className="flex justify-end gap-3">
         <Button
           variant="outline"
-          disabled={!file || !selectedSheet || loading}
+          disabled={!workbook || !selectedSheet || loading}
         >
           Cancel
         </Button>
         <Button
           onClick={handleUpload}
-          disabled={!file || !selectedSheet || loading}
+          disabled={!workbook || !selectedSheet || loading}
         >
           {loading ? "Loading..." : "Continue"}
         </Button>
@@ -0,0 +1,66 @@
+/**
+ * Design Philosophy: Formal Minimal
+ * - Workbook parsing off the main thread
+ * - Parsed once, cached for sheet switching
+ */
+
+import type { WorkBook } from "xlsx";
+import {
+  readWorkbook,
+  sheetToGrid,
+  WorkbookError,
+} from "@shared/workbookUtils";
+
+export type WorkbookWorkerRequest =
+  | { id: number; type: "open"; key: string; fileName: string; data: ArrayBuffer }
+  | { id: number; type: "sheet"; key: string; sheetName: string };
+
+export type WorkbookWorkerResponse =
+  | { id: number; type: "progress"; stage: "parsing" | "converting" }
+  | { id: number; type: "opened"; sheetNames: string[] }
+  | { id: number; type: "grid"; grid: any[][] }
+  | { id: number; type: "error"; message: string; code?: string };
+
+// Only the most recent workbook is kept
+let cached: { key: string; workbook: WorkBook } | null = null;
+
+function respond(response: WorkbookWorkerResponse) {
+  self.postMessage(response);
+}
+
+self.onmessage = (event: MessageEvent<WorkbookWorkerRequest>) => {
+  const request = event.data;
+
+  try {
+    if (request.type === "open") {
+      respond({ id: request.id, type: "progress", stage: "parsing" });
+      cached = {
+        key: request.key,
+        workbook: readWorkbook(request.data, request.fileName),
+      };
+      respond({
+        id: request.id,
+        type: "opened",
+        sheetNames: cached.workbook.SheetNames,
+      });
+      return;
+    }
+
+    if (!cached || cached.key !== request.key) {
+      throw new Error("Workbook is no longer loaded");
+    }
+    respond({ id: request.id, type: "progress", stage: "converting" });
+    respond({
+      id: request.id,
+      type: "grid",
+      grid: sheetToGrid(cached.workbook, request.sheetName),
+    });
+  } catch (error) {
+    respond({
+      id: request.id,
+      type: "error",
+      message: error instanceof Error ? error.message : String(error),
+      code: error instanceof WorkbookError ? error.code : undefined,
+    });
+  }
+};
@@ -0,0 +1,159 @@
+import express from "express";
+import type { AddressInfo } from "net";
+import type { Server } from "http";
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+import { createAnalyzeRouter } from "./analyzeRoute";
+
+const CSV = [
+  "Feature,Item,LOW,MID,HIGH",
+  "ENGINE,V6,O,-,O",
+  ",V8,-,O,-",
+].join("\n");
+
+const GROUPS = [{ name: "Engine", selectedFeatures: { ENGINE: ["V6", "V8"] } }];
+
+let server: Server;
+let baseUrl: string;
+
+beforeAll(async () => {
+  const app = express();
+  app.use("/api", createAnalyzeRouter());
+  server = await new Promise<Server>((resolve) => {
+    const listening = app.listen(0, "127.0.0.1", () => resolve(listening));
+  });
+  baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+afterAll(async () => {
+  await new Promise((resolve) => server.close(resolve));
+});
+
+/**
+ * Post the raw body with options in the query string
+ */
+async function post(
+  params: Record<string, unknown>,
+  body: string | Uint8Array = CSV
+) {
+  const query = new URLSearchParams({ fileName: "f-list.csv" });
+  for (const [key, value] of Object.entries(params)) {
+    if (value === undefined) query.delete(key);
+    else {
+      query.set(key, typeof value === "string" ? value : JSON.stringify(value));
+    }
+  }
+  const response = await fetch(`${baseUrl}/api/analyze?${query}`, {
+    method: "POST",
+    headers: { "content-type": "text/csv" },
+    body,
+  });
+  return { status: response.status, body: (await response.json()) as any };
+}
+
+describe("POST /api/analyze", () => {
+  it("analyzes a raw CSV body with a detected layout", async () => {
+    const { status, body } = await post({ groups: GROUPS });
+
+    expect(status).toBe(200);
+    expect(body.layout).toEqual({
+      featureColumn: "A",
+      itemColumn: "B",
+      startRow: 2,
+      startDataColumn: "C",
+    });
+    expect(body.analysis.groups[0].patterns).toHaveLength(2);
+  });
+
+  it("reads the file and options from a multipart form", async () => {
+    const form = new FormData();
+    form.append("file", new Blob([CSV], { type: "text/csv" }), "f-list.csv");
+    form.append("groups", JSON.stringify(GROUPS));
+    form.append("layout", JSON.stringify({ startRow: 3 }));
+    const response = await fetch(`${baseUrl}/api/analyze`, {
+      method: "POST",
+      body: form,
+    });
+    const body = (await response.json()) as any;
+
+    expect(response.status).toBe(200);
+    expect(body.layout.startRow).toBe(3);
+  });
+
+  it("rejects a request without a body with 400", async () => {
+    const response = await post({ groups: GROUPS }, "");
+
+    expect(response.status).toBe(400);
+    expect(response.body.error).toEqual({
+      code: "INVALID_REQUEST",
+      message: "Send the workbook as the request body",
+    });
+  });
+
+  it.each([
+    ["no groups", { groups: undefined }, "INVALID_REQUEST"],
+    ["groups that are no JSON", { groups: "[" }, "INVALID_REQUEST"],
+    ["an empty group list", { groups: [] }, "INVALID_GROUPS"],
+    ["a fractional start row", { startRow: "2.5" }, "INVALID_REQUEST"],
+    ["a layout array", { layout: [] }, "INVALID_REQUEST"],
+    ["a numeric column", { layout: { itemColumn: 2 } }, "INVALID_REQUEST"],
+    [
+      "an unknown cell state",
+      { cellVocabulary: { O: "yes" } },
+      "INVALID_REQUEST",
+    ],
+    [
+      "an unknown metadata row",
+      { metadataRows: { trim: 1 } },
+      "INVALID_REQUEST",
+    ],
+  ])("rejects %s with 400", async (_name, params, code) => {
+    const response = await post({ groups: GROUPS, ...params });
+
+    expect(response.status).toBe(400);
+    expect(response.body.error.code).toBe(code);
+  });
+
+  it("names the parameter in option errors", async () => {
+    const { body } = await post({
+      groups: GROUPS,
+      metadataRows: { plant: 0 },
+    });
+
+    expect(body.error.message).toBe(
+      '"metadataRows" field "plant" must be a positive integer, got 0'
+    );
+  });
+
+  it("rejects an unreadable workbook with 422", async () => {
+    // Zip signature followed by garbage
+    const corrupt = new Uint8Array([0x50, 0x4b, 3, 4, 1, 2, 3, 4, 5, 6, 7, 8]);
+    const response = await post(
+      { groups: GROUPS, fileName: "f-list.xlsx" },
+      corrupt
+    );
+
+    expect(response.status).toBe(422);
+    expect(response.body.error.code).toBe("INVALID_WORKBOOK");
+  });
+
+  it.each([
+    ["a missing sheet", { sheet: "Missing" }, "SHEET_NOT_FOUND"],
+    ["a start row past the data", { startRow: "9" }, "INVALID_LAYOUT"],
+    ["data left of the items", { startDataColumn: "B" }, "INVALID_LAYOUT"],
+  ])("rejects %s with 422", async (_name, params, code) => {
+    const response = await post({ groups: GROUPS, ...params });
+
+    expect(response.status).toBe(422);
+    expect(response.body.error.code).toBe(code);
+  });
+
+  it("rejects bodies over 50 MB with 413", async () => {
+    const response = await post(
+      { groups: GROUPS },
+      new Uint8Array(50 * 1024 * 1024 + 1)
+    );
+
+    expect(response.status).toBe(413);
+    expect(response.body.error.code).toBe("FILE_TOO_LARGE");
+  });
+});
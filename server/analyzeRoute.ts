@@ -0,0 +1,255 @@
+import express, {
+  type NextFunction,
+  type Request,
+  type Response,
+} from "express";
+import multer from "multer";
+import {
+  analyzeWorkbook,
+  parseCellVocabulary,
+  parseMetadataRows,
+  parseVariationGroups,
+  WorkbookError,
+  type WorkbookErrorCode,
+  type WorkbookAnalysisOptions,
+} from "../shared/workbookUtils";
+import type { LabelStyle } from "../shared/types";
+
+const MAX_UPLOAD_BYTES = 50 * 1024 * 1024;
+
+const WORKBOOK_MIME_TYPES = [
+  "application/octet-stream",
+  "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
+  "application/vnd.ms-excel",
+  "application/vnd.ms-excel.sheet.macroEnabled.12",
+  "application/vnd.oasis.opendocument.spreadsheet",
+  "text/csv",
+  "text/tab-separated-values",
+  "text/plain",
+];
+
+type ApiErrorCode = WorkbookErrorCode | "INVALID_REQUEST" | "FILE_TOO_LARGE";
+
+const STATUS_BY_CODE: Record<ApiErrorCode, number> = {
+  INVALID_REQUEST: 400,
+  INVALID_GROUPS: 400,
+  INVALID_OPTIONS: 400,
+  FILE_TOO_LARGE: 413,
+  INVALID_WORKBOOK: 422,
+  SHEET_NOT_FOUND: 422,
+  EMPTY_SHEET: 422,
+  INVALID_LAYOUT: 422,
+};
+
+class ApiError extends Error {
+  constructor(
+    public code: ApiErrorCode,
+    message: string
+  ) {
+    super(message);
+    this.name = "ApiError";
+  }
+}
+
+function parseJsonParam(name: string, value: unknown): unknown {
+  if (value === undefined || value === "") return undefined;
+  if (typeof value !== "string") return value;
+  try {
+    return JSON.parse(value);
+  } catch {
+    throw new ApiError("INVALID_REQUEST", `"${name}" must be valid JSON`);
+  }
+}
+
+function stringParam(value: unknown): string | undefined {
+  return typeof value === "string" && value.trim() ? value.trim() : undefined;
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function columnParam(name: string, value: unknown): string | undefined {
+  if (value === undefined || value === "") return undefined;
+  if (typeof value !== "string") {
+    throw new ApiError(
+      "INVALID_REQUEST",
+      `"${name}" must be a column letter, got ${JSON.stringify(value)}`
+    );
+  }
+  return stringParam(value)?.toUpperCase();
+}
+
+function positiveIntegerParam(
+  name: string,
+  value: unknown
+): number | undefined {
+  if (value === undefined || value === "") return undefined;
+  const number = typeof value === "string" ? Number(value.trim()) : value;
+  if (typeof number !== "number" || !Number.isInteger(number) || number < 1) {
+    throw new ApiError(
+      "INVALID_REQUEST",
+      `"${name}" must be a positive integer, got ${JSON.stringify(value)}`
+    );
+  }
+  return number;
+}
+
+/**
+ * Parse a JSON parameter with a shared validator, as a bad request on failure
+ */
+function parseValidatedParam<T>(
+  name: string,
+  value: unknown,
+  parse: (value: unknown, name: string) => T
+): T | undefined {
+  const parsed = parseJsonParam(name, value);
+  if (parsed === undefined) return undefined;
+  try {
+    return parse(parsed, `"${name}"`);
+  } catch (error) {
+    if (error instanceof WorkbookError) {
+      throw new ApiError("INVALID_REQUEST", error.message);
+    }
+    throw error;
+  }
+}
+
+/**
+ * Read analysis options from multipart fields or the query string
+ */
+function parseOptions(
+  params: Record<string, unknown>
+): WorkbookAnalysisOptions {
+  const layoutParam = parseJsonParam("layout", params.layout);
+  if (layoutParam !== undefined && !isPlainObject(layoutParam)) {
+    throw new ApiError(
+      "INVALID_REQUEST",
+      `"layout" must be an object with featureColumn, itemColumn, startRow and startDataColumn`
+    );
+  }
+  const layout = layoutParam ?? {};
+  const startRow = params.startRow ?? layout.startRow;
+  const labelStyle = stringParam(params.labelStyle);
+  if (labelStyle && labelStyle !== "letters" && labelStyle !== "numbers") {
+    throw new ApiError(
+      "INVALID_REQUEST",
+      `"labelStyle" must be "letters" or "numbers"`
+    );
+  }
+
+  const groups = parseJsonParam("groups", params.groups);
+  if (groups === undefined) {
+    throw new ApiError("INVALID_REQUEST", `"groups" is required`);
+  }
+
+  return {
+    sheetName: stringParam(params.sheet) || stringParam(params.sheetName),
+    layout: {
+      featureColumn: columnParam(
+        "featureColumn",
+        params.featureColumn ?? layout.featureColumn
+      ),
+      itemColumn: columnParam(
+        "itemColumn",
+        params.itemColumn ?? layout.itemColumn
+      ),
+      startRow: positiveIntegerParam("startRow", startRow),
+      startDataColumn: columnParam(
+        "startDataColumn",
+        params.startDataColumn ?? layout.startDataColumn
+      ),
+    },
+    labelStyle: labelStyle as LabelStyle | undefined,
+    cellVocabulary: parseValidatedParam(
+      "cellVocabulary",
+      params.cellVocabulary,
+      parseCellVocabulary
+    ),
+    metadataRows: parseValidatedParam(
+      "metadataRows",
+      params.metadataRows,
+      parseMetadataRows
+    ),
+    groups: parseVariationGroups(groups),
+  };
+}
+
+/**
+ * POST /api/analyze
+ * Body: multipart form with a "file" field, or the raw workbook bytes
+ * Options: form fields (multipart) or query parameters (raw body)
+ */
+export function createAnalyzeRouter() {
+  const router = express.Router();
+  const upload = multer({
+    storage: multer.memoryStorage(),
+    limits: { fileSize: MAX_UPLOAD_BYTES },
+  });
+
+  router.post(
+    "/analyze",
+    (req, res, next) =>
+      req.is("multipart/form-data")
+        ? upload.single("file")(req, res, next)
+        : express.raw({ type: WORKBOOK_MIME_TYPES, limit: MAX_UPLOAD_BYTES })(
+            req,
+            res,
+            next
+          ),
+    (req: Request, res: Response) => {
+      const isMultipart = !!req.is("multipart/form-data");
+      const data = isMultipart ? req.file?.buffer : req.body;
+
+      if (!Buffer.isBuffer(data) || data.length === 0) {
+        throw new ApiError(
+          "INVALID_REQUEST",
+          isMultipart
+            ? `Upload the workbook in the "file" field`
+            : "Send the workbook as the request body"
+        );
+      }
+
+      const options = parseOptions(isMultipart ? req.body : req.query);
+      options.fileName = isMultipart
+        ? req.file?.originalname
+        : stringParam(req.query.fileName);
+      res.json(analyzeWorkbook(new Uint8Array(data), options));
+    }
+  );
+
+  // Structured JSON errors for everything raised above
+  router.use(
+    (error: unknown, _req: Request, res: Response, _next: NextFunction) => {
+      let code: ApiErrorCode;
+      let message: string;
+
+      if (error instanceof ApiError || error instanceof WorkbookError) {
+        code = error.code;
+        message = error.message;
+      } else if (
+        error instanceof multer.MulterError &&
+        error.code === "LIMIT_FILE_SIZE"
+      ) {
+        code = "FILE_TOO_LARGE";
+        message = `Workbook exceeds ${MAX_UPLOAD_BYTES / 1024 / 1024} MB`;
+      } else if (error instanceof multer.MulterError) {
+        code = "INVALID_REQUEST";
+        message = error.message;
+      } else if ((error as { type?: string })?.type === "entity.too.large") {
+        code = "FILE_TOO_LARGE";
+        message = `Workbook exceeds ${MAX_UPLOAD_BYTES / 1024 / 1024} MB`;
+      } else {
+        console.error(error);
+        res.status(500).json({
+          error: { code: "INTERNAL_ERROR", message: "Analysis failed" },
+        });
+        return;
+      }
+
+      res.status(STATUS_BY_CODE[code]).json({ error: { code, message } });
+    }
+  );
+
+  return router;
+}
@@ -0,0 +1,314 @@
+#!/usr/bin/env node
+import fs from "fs";
+import path from "path";
+import { parseArgs } from "util";
+import {
+  analyzeWorkbook,
+  parseCellVocabulary,
+  parseMetadataRows,
+  parseVariationGroups,
+  toDelimitedText,
+  WorkbookError,
+  type WorkbookAnalysisOptions,
+} from "../shared/workbookUtils";
+import { writeWorkbook } from "../shared/workbookWriter";
+import {
+  buildLongFormatRows,
+  buildResultsSheet,
+  buildSummarySheet,
+} from "../shared/exportUtils";
+import type { LabelStyle } from "../shared/types";
+import { expandGlob, splitGlob } from "./glob";
+
+const USAGE = `Usage: variation-calc <workbook|glob>... --groups <groups.json> [options]
+
+Options:
+  -g, --groups <file>         Variation group definitions (JSON array)
+  -s, --sheet <name>          Worksheet to analyze (default: F-List, else first)
+      --feature-column <col>  Feature name column (default: detected)
+      --item-column <col>     Item name column (default: detected)
+      --start-row <n>         First feature row (default: detected)
+      --data-column <col>     First grade column (default: detected)
+      --label-style <style>   letters (A, B … AA) or numbers (1, 2, 3)
+      --cell-vocabulary <json>
+                              Symbols mapped to cell states (applies,
+                              optional, notApplies, notAvailable),
+                              e.g. {"X":"applies"}
+      --metadata-rows <json>  Metadata rows by field (plant, model,
+                              destination, grade), e.g. {"grade":4}
+  -f, --format <format>       xlsx, csv (long format) or json (default: xlsx)
+  -o, --out-dir <dir>         Output directory (default: next to each workbook)
+                              Folders matched by ** are recreated inside it
+  -h, --help                  Show this help
+
+Exit codes: 0 all workbooks analyzed, 1 a workbook failed validation,
+2 invalid arguments, group definitions or output directory.`;
+
+const FORMATS = ["xlsx", "csv", "json"] as const;
+type OutputFormat = (typeof FORMATS)[number];
+
+// Outputs are named <workbook>.variations.<format>
+const OUTPUT_SUFFIX = ".variations";
+
+/**
+ * Whether a file is the output of an earlier run
+ */
+function isOutputFile(file: string): boolean {
+  return FORMATS.some((format) =>
+    file.endsWith(`${OUTPUT_SUFFIX}.${format}`)
+  );
+}
+
+class UsageError extends Error {}
+
+interface InputFile {
+  file: string;
+  subdir: string; // Folder below the glob's base, recreated under --out-dir
+}
+
+/**
+ * Parse a JSON option with a shared validator
+ */
+function parseJsonOption<T>(
+  flag: string,
+  value: string | undefined,
+  parse: (value: unknown, name: string) => T
+): T | undefined {
+  if (value === undefined) return undefined;
+  let json: unknown;
+  try {
+    json = JSON.parse(value);
+  } catch {
+    throw new UsageError(`--${flag} must be valid JSON`);
+  }
+  try {
+    return parse(json, `--${flag}`);
+  } catch (error) {
+    throw new UsageError(error instanceof Error ? error.message : String(error));
+  }
+}
+
+function parseCli(argv: string[]) {
+  const { values, positionals } = parseArgs({
+    args: argv,
+    allowPositionals: true,
+    options: {
+      groups: { type: "string", short: "g" },
+      sheet: { type: "string", short: "s" },
+      "feature-column": { type: "string" },
+      "item-column": { type: "string" },
+      "start-row": { type: "string" },
+      "data-column": { type: "string" },
+      "label-style": { type: "string" },
+      "cell-vocabulary": { type: "string" },
+      "metadata-rows": { type: "string" },
+      format: { type: "string", short: "f", default: "xlsx" },
+      "out-dir": { type: "string", short: "o" },
+      help: { type: "boolean", short: "h" },
+    },
+  });
+
+  if (values.help) return null;
+
+  if (positionals.length === 0) {
+    throw new UsageError("No workbook given");
+  }
+  if (!values.groups) {
+    throw new UsageError("--groups is required");
+  }
+
+  const format = values.format as OutputFormat;
+  if (!FORMATS.includes(format)) {
+    throw new UsageError(`--format must be one of ${FORMATS.join(", ")}`);
+  }
+
+  const labelStyle = values["label-style"];
+  if (labelStyle && labelStyle !== "letters" && labelStyle !== "numbers") {
+    throw new UsageError(`--label-style must be "letters" or "numbers"`);
+  }
+
+  const startRow = values["start-row"];
+  if (startRow !== undefined && !/^[1-9]\d*$/.test(startRow)) {
+    throw new UsageError("--start-row must be a positive integer");
+  }
+
+  let groups: WorkbookAnalysisOptions["groups"];
+  try {
+    groups = parseVariationGroups(
+      JSON.parse(fs.readFileSync(values.groups, "utf-8"))
+    );
+  } catch (error) {
+    throw new UsageError(
+      `Invalid group definitions in ${values.groups}: ${error instanceof Error ? error.message : error}`
+    );
+  }
+
+  // Globs skip earlier outputs so re-running a batch does not analyze them
+  const seen = new Set<string>();
+  const inputs: InputFile[] = positionals.flatMap((pattern) => {
+    const glob = splitGlob(pattern);
+    return expandGlob(pattern)
+      .filter((file) => file === pattern || !isOutputFile(file))
+      .filter((file) => {
+        if (seen.has(file)) return false;
+        seen.add(file);
+        return true;
+      })
+      .map((file) => ({
+        file,
+        subdir: glob ? path.relative(glob.baseDir, path.dirname(file)) : "",
+      }));
+  });
+  if (inputs.length === 0) {
+    throw new UsageError(`No workbooks match ${positionals.join(" ")}`);
+  }
+
+  return {
+    inputs,
+    format,
+    outDir: values["out-dir"],
+    options: {
+      sheetName: values.sheet,
+      layout: {
+        featureColumn: values["feature-column"]?.toUpperCase(),
+        itemColumn: values["item-column"]?.toUpperCase(),
+        startRow: startRow ? Number(startRow) : undefined,
+        startDataColumn: values["data-column"]?.toUpperCase(),
+      },
+      labelStyle: labelStyle as LabelStyle | undefined,
+      cellVocabulary: parseJsonOption(
+        "cell-vocabulary",
+        values["cell-vocabulary"],
+        parseCellVocabulary
+      ),
+      metadataRows: parseJsonOption(
+        "metadata-rows",
+        values["metadata-rows"],
+        parseMetadataRows
+      ),
+      groups,
+    } satisfies WorkbookAnalysisOptions,
+  };
+}
+
+/**
+ * Where a workbook's result goes: next to it, or into outDir
+ */
+function outputFile(
+  input: InputFile,
+  format: OutputFormat,
+  outDir: string | undefined
+): string {
+  const baseName = path.basename(input.file, path.extname(input.file));
+  return path.join(
+    outDir ? path.join(outDir, input.subdir) : path.dirname(input.file),
+    `${baseName}${OUTPUT_SUFFIX}.${format}`
+  );
+}
+
+/**
+ * Analyze one workbook and write the result to outFile
+ */
+async function processWorkbook(
+  file: string,
+  outFile: string,
+  format: OutputFormat,
+  options: WorkbookAnalysisOptions
+): Promise<void> {
+  const result = analyzeWorkbook(new Uint8Array(fs.readFileSync(file)), {
+    ...options,
+    fileName: path.basename(file),
+  });
+  fs.mkdirSync(path.dirname(outFile), { recursive: true });
+
+  if (format === "json") {
+    fs.writeFileSync(outFile, JSON.stringify(result, null, 2));
+  } else if (format === "csv") {
+    fs.writeFileSync(
+      outFile,
+      toDelimitedText(buildLongFormatRows(result.analysis))
+    );
+  } else {
+    fs.writeFileSync(
+      outFile,
+      Buffer.from(
+        await writeWorkbook([
+          buildResultsSheet(result.analysis, {
+            vocabulary: options.cellVocabulary,
+          }),
+          buildSummarySheet(result.analysis),
+        ])
+      )
+    );
+  }
+}
+
+async function main(argv: string[]): Promise<number> {
+  let cli: ReturnType<typeof parseCli>;
+  try {
+    cli = parseCli(argv);
+  } catch (error) {
+    console.error(
+      `variation-calc: ${error instanceof Error ? error.message : error}`
+    );
+    console.error(USAGE);
+    return 2;
+  }
+
+  if (!cli) {
+    console.log(USAGE);
+    return 0;
+  }
+
+  if (cli.outDir) {
+    try {
+      fs.mkdirSync(cli.outDir, { recursive: true });
+    } catch (error) {
+      console.error(
+        `variation-calc: cannot create output directory ${cli.outDir}: ${error instanceof Error ? error.message : error}`
+      );
+      return 2;
+    }
+  }
+
+  let failures = 0;
+  // Output file -> workbook that wrote it
+  const written = new Map<string, string>();
+  for (const input of cli.inputs) {
+    const { file } = input;
+    try {
+      const outFile = outputFile(input, cli.format, cli.outDir);
+      const writer = written.get(path.resolve(outFile));
+      if (writer) {
+        throw new Error(`${outFile} was already written for ${writer}`);
+      }
+      await processWorkbook(file, outFile, cli.format, cli.options);
+      written.set(path.resolve(outFile), file);
+      console.log(`${file} -> ${outFile}`);
+    } catch (error) {
+      failures++;
+      const code = error instanceof WorkbookError ? ` [${error.code}]` : "";
+      console.error(
+        `${file}: ${error instanceof Error ? error.message : error}${code}`
+      );
+    }
+  }
+
+  if (cli.inputs.length > 1) {
+    console.log(
+      `${cli.inputs.length - failures}/${cli.inputs.length} workbooks analyzed`
+    );
+  }
+  return failures > 0 ? 1 : 0;
+}
+
+main(process.argv.slice(2))
+  .then((code) => {
+    process.exitCode = code;
+  })
+  .catch((error) => {
+    console.error(
+      `variation-calc: ${error instanceof Error ? error.message : error}`
+    );
+    process.exitCode = 2;
+  });
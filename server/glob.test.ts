@@ -0,0 +1,107 @@
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { afterAll, beforeAll, describe, expect, it, vi } from "vitest";
+import { expandGlob, globToRegExp, splitGlob } from "./glob";
+
+describe("globToRegExp", () => {
+  it("matches * and ? within one path segment", () => {
+    const matcher = globToRegExp("*.xls?");
+
+    expect(matcher.test("plan.xlsx")).toBe(true);
+    expect(matcher.test("plan.xls")).toBe(false);
+    expect(matcher.test("2024/plan.xlsx")).toBe(false);
+  });
+
+  it("matches **/ across any number of directories", () => {
+    const matcher = globToRegExp("**/*.csv");
+
+    expect(matcher.test("a.csv")).toBe(true);
+    expect(matcher.test("x/y/a.csv")).toBe(true);
+    expect(matcher.test("x/a.csv.bak")).toBe(false);
+  });
+
+  it("escapes regular expression characters", () => {
+    const matcher = globToRegExp("plan (v1).xlsx");
+
+    expect(matcher.test("plan (v1).xlsx")).toBe(true);
+    expect(matcher.test("plan (v1)Xxlsx")).toBe(false);
+  });
+});
+
+describe("splitGlob", () => {
+  it("splits at the first segment with a wildcard", () => {
+    expect(splitGlob("data/2024/*/plan?.xlsx")).toEqual({
+      baseDir: "data/2024",
+      rest: "*/plan?.xlsx",
+    });
+    expect(splitGlob("*.xlsx")).toEqual({ baseDir: ".", rest: "*.xlsx" });
+  });
+
+  it("keeps the root of absolute patterns", () => {
+    expect(splitGlob("/*.xlsx")).toEqual({ baseDir: "/", rest: "*.xlsx" });
+  });
+
+  it("returns null for plain paths", () => {
+    expect(splitGlob("data/plan.xlsx")).toBeNull();
+  });
+});
+
+describe("expandGlob", () => {
+  let dir: string;
+
+  beforeAll(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), "glob-"));
+    for (const file of ["b.xlsx", "a.xlsx", "notes.txt", "sub/c.xlsx"]) {
+      fs.mkdirSync(path.dirname(path.join(dir, file)), { recursive: true });
+      fs.writeFileSync(path.join(dir, file), "");
+    }
+    fs.mkdirSync(path.join(dir, "folder.xlsx"));
+  });
+
+  afterAll(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it("returns matching files sorted, skipping directories", () => {
+    expect(expandGlob(path.join(dir, "*.xlsx"))).toEqual([
+      path.join(dir, "a.xlsx"),
+      path.join(dir, "b.xlsx"),
+    ]);
+  });
+
+  it("descends into subdirectories for **", () => {
+    expect(expandGlob(path.join(dir, "**", "*.xlsx"))).toEqual([
+      path.join(dir, "a.xlsx"),
+      path.join(dir, "b.xlsx"),
+      path.join(dir, "sub", "c.xlsx"),
+    ]);
+  });
+
+  it("reads only the directories a pattern without ** names", () => {
+    const readdir = vi.spyOn(fs, "readdirSync");
+    try {
+      expandGlob(path.join(dir, "*.xlsx"));
+      expect(readdir).toHaveBeenCalledTimes(1);
+
+      readdir.mockClear();
+      expect(expandGlob(path.join(dir, "*", "*.xlsx"))).toEqual([
+        path.join(dir, "sub", "c.xlsx"),
+      ]);
+      // The base directory, then "folder.xlsx" and "sub"
+      expect(readdir).toHaveBeenCalledTimes(3);
+    } finally {
+      readdir.mockRestore();
+    }
+  });
+
+  it("returns plain paths as given, even when missing", () => {
+    const missing = path.join(dir, "missing.xlsx");
+
+    expect(expandGlob(missing)).toEqual([missing]);
+  });
+
+  it("returns nothing when the base directory is missing", () => {
+    expect(expandGlob(path.join(dir, "missing", "*.xlsx"))).toEqual([]);
+  });
+});
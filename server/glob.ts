@@ -0,0 +1,84 @@
+import fs from "fs";
+import path from "path";
+
+/**
+ * Convert a glob pattern (*, ?, **) to a regular expression
+ */
+export function globToRegExp(pattern: string): RegExp {
+  let source = "";
+  for (let i = 0; i < pattern.length; i++) {
+    const char = pattern[i];
+    if (char === "*" && pattern[i + 1] === "*") {
+      const slash = pattern[i + 2] === "/";
+      source += slash ? "(?:.*/)?" : ".*";
+      i += slash ? 2 : 1;
+    } else if (char === "*") {
+      source += "[^/]*";
+    } else if (char === "?") {
+      source += "[^/]";
+    } else {
+      source += char.replace(/[.+^${}()|[\]\\]/g, "\\$&");
+    }
+  }
+  return new RegExp(`^${source}$`);
+}
+
+/**
+ * Split a glob into the directory to search and the pattern below it
+ * Returns null for a plain path
+ */
+export function splitGlob(
+  pattern: string
+): { baseDir: string; rest: string } | null {
+  const normalized = pattern.split(path.sep).join("/");
+  if (!/[*?]/.test(normalized)) return null;
+
+  const segments = normalized.split("/");
+  const globIndex = segments.findIndex((s) => /[*?]/.test(s));
+  // An absolute pattern keeps its root: "/*.xlsx" searches "/"
+  const baseDir =
+    segments.slice(0, globIndex).join("/") ||
+    (normalized.startsWith("/") ? "/" : ".");
+  return { baseDir, rest: segments.slice(globIndex).join("/") };
+}
+
+/**
+ * Relative paths below a directory, at most maxDepth levels deep
+ * Unreadable directories are skipped
+ */
+function listEntries(baseDir: string, maxDepth: number, prefix = ""): string[] {
+  let entries: fs.Dirent[];
+  try {
+    entries = fs.readdirSync(path.join(baseDir, prefix), {
+      withFileTypes: true,
+    });
+  } catch {
+    return [];
+  }
+  return entries.flatMap((entry) => {
+    const relative = prefix ? `${prefix}/${entry.name}` : entry.name;
+    return entry.isDirectory() && maxDepth > 1
+      ? [relative, ...listEntries(baseDir, maxDepth - 1, relative)]
+      : [relative];
+  });
+}
+
+/**
+ * Expand a path or glob into matching files, sorted
+ * Only "**" searches below the directories the pattern names
+ */
+export function expandGlob(pattern: string): string[] {
+  const glob = splitGlob(pattern);
+  if (!glob) return [pattern];
+
+  const matcher = globToRegExp(glob.rest);
+  const maxDepth = glob.rest.includes("**")
+    ? Infinity
+    : glob.rest.split("/").length;
+
+  return listEntries(glob.baseDir, maxDepth)
+    .filter((entry) => matcher.test(entry))
+    .map((entry) => path.join(glob.baseDir, entry))
+    .filter((file) => fs.statSync(file).isFile())
+    .sort();
+}
@@ -2,6 +2,7 @@ import express from "express";
 import { createServer } from "http";
 import path from "path";
 import { fileURLToPath } from "url";
+import { createAnalyzeRouter } from "./analyzeRoute";
 
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = path.dirname(__filename);
@@ -16,6 +17,9 @@ async function startServer() {
       ? path.resolve(__dirname, "public")
       : path.resolve(__dirname, "..", "dist", "public");
 
+  // Variation analysis API for scripts (MES/PLM integrations)
+  app.use("/api", createAnalyzeRouter());
+
   app.use(express.static(staticPath));
 
   // Handle client-side routing - serve index.html for all routes
@@ -0,0 +1,373 @@
+import { describe, expect, it } from "vitest";
+import type { VariationGroupConfig } from "./types";
+import {
+  buildLongFormatRows,
+  buildResultsSheet,
+  buildSpecSheets,
+  buildSummarySheet,
+  LONG_FORMAT_HEADER,
+} from "./exportUtils";
+import { analyzeVariations } from "./variationUtils";
+import { parseDelimitedText, toDelimitedText } from "./workbookUtils";
+
+// Metadata in rows 1-3, table header in row 4, features from row 5
+const GRID = [
+  ["PLANT", "", "P1", "P1", "P2", "P2"],
+  ["MODEL", "", "M1", "M2", "M1", "M2"],
+  ["GRADE", "", "LOW", "MID", "HIGH", "TOP"],
+  ["Feature", "Item", "", "", "", ""],
+  ["ENGINE", "V6", "O", "O", "-", "-"],
+  ["", "V8", "-", "-", "O", "O"],
+  ["TRIM", "CLOTH", "O", "-", "O", "."],
+  ["", "LEATHER", "-", "OP", "-", "O"],
+];
+
+const LAYOUT = {
+  featureColumn: "A",
+  itemColumn: "B",
+  startRow: 5,
+  startDataColumn: "C",
+};
+
+const ENGINE: VariationGroupConfig = {
+  id: "engine",
+  name: "Engine",
+  selectedFeatures: { ENGINE: ["V6", "V8"] },
+};
+const TRIM: VariationGroupConfig = {
+  id: "trim",
+  name: "Trim",
+  selectedFeatures: { TRIM: ["CLOTH", "LEATHER"] },
+};
+
+function analyze(groups: VariationGroupConfig[] = [ENGINE, TRIM]) {
+  return analyzeVariations(GRID, LAYOUT, groups);
+}
+
+describe("buildResultsSheet", () => {
+  it("writes one titled label row per group above the table", () => {
+    const { data, boldRows } = buildResultsSheet(analyze());
+
+    expect(data.slice(3, 10)).toEqual([
+      ["Variation (Engine)", "", "A", "A", "B", "B"],
+      ["Variation (Trim)", "", "A", "B", "A", "C"],
+      ["Feature", "Item", "C", "D", "E", "F"],
+      ["ENGINE", "V6", "O", "O", "-", "-"],
+      ["ENGINE", "V8", "-", "-", "O", "O"],
+      ["TRIM", "CLOTH", "O", "-", "O", "."],
+      ["TRIM", "LEATHER", "-", "OP", "-", "O"],
+    ]);
+    expect(boldRows).toEqual([0, 1, 2, 3, 4, 5, 11]);
+  });
+
+  it("titles the label row Variation for a single group", () => {
+    const { data } = buildResultsSheet(analyze([ENGINE]));
+
+    expect(data[3]).toEqual(["Variation", "", "A", "A", "B", "B"]);
+  });
+
+  it("freezes and filters the table below its header", () => {
+    const { frozen, autoFilter } = buildResultsSheet(analyze());
+
+    expect(frozen).toEqual({ rows: 6, columns: 2 });
+    expect(autoFilter).toEqual({
+      fromRow: 5,
+      toRow: 9,
+      fromColumn: 0,
+      toColumn: 5,
+    });
+  });
+
+  it("fills label rows per group and data cells with the active group", () => {
+    const analysis = analyze();
+    const [engineA, engineB] = analysis.groups[0].patterns;
+    const [trimA, trimB, trimC] = analysis.groups[1].patterns;
+    const { fills } = buildResultsSheet(analysis, { activeGroupId: 1 });
+
+    expect(fills[3].slice(2)).toEqual([
+      engineA.color,
+      engineA.color,
+      engineB.color,
+      engineB.color,
+    ]);
+    // Header and data use the Trim colors
+    expect(fills[5].slice(2)).toEqual([
+      trimA.color,
+      trimB.color,
+      trimA.color,
+      trimC.color,
+    ]);
+    // Applied and optional cells are filled, not available ones are grey
+    expect(fills[8].slice(2)).toEqual([
+      trimA.color,
+      undefined,
+      trimA.color,
+      "#EEEEEE",
+    ]);
+    expect(fills[9].slice(2)).toEqual([
+      undefined,
+      trimB.color,
+      undefined,
+      trimC.color,
+    ]);
+  });
+
+  it("fills data cells with the first group by default", () => {
+    const analysis = analyze();
+    const { fills } = buildResultsSheet(analysis);
+
+    expect(fills[6][2]).toBe(analysis.groups[0].patterns[0].color);
+  });
+
+  it("adds the symbol legend of the vocabulary unless turned off", () => {
+    const vocabulary = { Y: "applies", "~": "optional" } as const;
+    const { data } = buildResultsSheet(analyze(), { vocabulary });
+
+    expect(data.slice(10)).toEqual([
+      [],
+      ["Symbol", "Meaning"],
+      ["Y", "Applies"],
+      ["~", "Optional"],
+    ]);
+    expect(
+      buildResultsSheet(analyze(), { includeLegend: false }).data
+    ).toHaveLength(10);
+  });
+});
+
+describe("metadata rows", () => {
+  it("reads each field from the row above its grade column", () => {
+    const { metadataRows, columnPatterns } = analyze();
+
+    expect(metadataRows).toEqual({ plant: 1, model: 2, grade: 3 });
+    expect(columnPatterns.map((cp) => cp.metadata)).toEqual([
+      { plant: "P1", model: "M1", destination: "", grade: "LOW" },
+      { plant: "P1", model: "M2", destination: "", grade: "MID" },
+      { plant: "P2", model: "M1", destination: "", grade: "HIGH" },
+      { plant: "P2", model: "M2", destination: "", grade: "TOP" },
+    ]);
+  });
+
+  it("writes found fields only, over the grade columns", () => {
+    const { data } = buildResultsSheet(analyze());
+
+    expect(data.slice(0, 3)).toEqual([
+      ["PLANT", "", "P1", "P1", "P2", "P2"],
+      ["MODEL", "", "M1", "M2", "M1", "M2"],
+      ["GRADE", "", "LOW", "MID", "HIGH", "TOP"],
+    ]);
+  });
+
+  // Label "Dest.:" in B, a spacer column C, grades from D, features from row 4
+  const OFFSET_GRID = [
+    ["", "Dest.:", "", "JP", "US"],
+    ["", "", "", "G1", "G2"],
+    ["", "", "", "", ""],
+    ["ENGINE", "V6", "", "O", "-"],
+    ["", "V8", "", "-", "O"],
+  ];
+  const OFFSET_LAYOUT = {
+    featureColumn: "A",
+    itemColumn: "B",
+    startRow: 4,
+    startDataColumn: "D",
+  };
+
+  it("falls back to the row two above the features for grade names", () => {
+    const analysis = analyzeVariations(OFFSET_GRID, OFFSET_LAYOUT, [ENGINE]);
+
+    expect(analysis.metadataRows).toEqual({ destination: 1 });
+    expect(buildResultsSheet(analysis).data.slice(0, 4)).toEqual([
+      ["DESTINATION", "", "JP", "US"],
+      ["GRADE", "", "G1", "G2"],
+      ["Variation", "", "A", "B"],
+      ["Feature", "Item", "D", "E"],
+    ]);
+  });
+
+  it("lets given rows win over detected labels", () => {
+    const analysis = analyzeVariations(
+      OFFSET_GRID,
+      { ...OFFSET_LAYOUT, metadataRows: { destination: 2, plant: 1 } },
+      [ENGINE]
+    );
+
+    expect(analysis.metadataRows).toEqual({ destination: 2, plant: 1 });
+    expect(analysis.columnPatterns.map((cp) => cp.metadata)).toEqual([
+      { plant: "JP", model: "", destination: "G1", grade: "" },
+      { plant: "US", model: "", destination: "G2", grade: "" },
+    ]);
+  });
+});
+
+describe("buildSummarySheet", () => {
+  it("lists every variation of every group with its grades", () => {
+    const analysis = analyze();
+    const { data } = buildSummarySheet(analysis);
+
+    expect(data).toEqual([
+      [
+        "Group",
+        "Variation",
+        "Color",
+        "Grades",
+        "Grade Names",
+        "Columns",
+        "Applied Items",
+      ],
+      [
+        "Engine",
+        "A",
+        analysis.groups[0].patterns[0].color,
+        2,
+        "LOW, MID",
+        "C, D",
+        "ENGINE > V6",
+      ],
+      [
+        "Engine",
+        "B",
+        analysis.groups[0].patterns[1].color,
+        2,
+        "HIGH, TOP",
+        "E, F",
+        "ENGINE > V8",
+      ],
+      [
+        "Trim",
+        "A",
+        analysis.groups[1].patterns[0].color,
+        2,
+        "LOW, HIGH",
+        "C, E",
+        "TRIM > CLOTH",
+      ],
+      ["Trim", "B", analysis.groups[1].patterns[1].color, 1, "MID", "D", ""],
+      [
+        "Trim",
+        "C",
+        analysis.groups[1].patterns[2].color,
+        1,
+        "TOP",
+        "F",
+        "TRIM > LEATHER",
+      ],
+    ]);
+  });
+
+  it("fills the label and color cells with the variation color", () => {
+    const analysis = analyze([ENGINE]);
+    const { fills, boldRows, frozen } = buildSummarySheet(analysis);
+    const [a, b] = analysis.groups[0].patterns;
+
+    expect(fills).toEqual([
+      [],
+      [undefined, a.color, a.color],
+      [undefined, b.color, b.color],
+    ]);
+    expect(boldRows).toEqual([0]);
+    expect(frozen).toEqual({ rows: 1, columns: 0 });
+  });
+
+  it("leaves grade names out when the sheet has none", () => {
+    const grid = GRID.map((row, i) => (i === 2 ? row.map(() => "") : row));
+    const analysis = analyzeVariations(grid, LAYOUT, [ENGINE]);
+    const { data } = buildSummarySheet(analysis);
+
+    expect(data[1].slice(3, 6)).toEqual([2, "", "C, D"]);
+  });
+});
+
+describe("buildSpecSheets", () => {
+  it("writes the grades and applied items of each variation", () => {
+    const analysis = analyze();
+    const [a, b] = buildSpecSheets(analysis, 1);
+
+    expect(a.data).toEqual([
+      ["Variation", "A"],
+      ["Group", "Trim"],
+      [],
+      ["Column", "Grade", "PLANT", "MODEL"],
+      ["C", "LOW", "P1", "M1"],
+      ["E", "HIGH", "P2", "M1"],
+      [],
+      ["Feature", "Applied Items"],
+      ["TRIM", "CLOTH"],
+    ]);
+    expect(a.fills).toEqual([
+      [undefined, analysis.groups[1].patterns[0].color],
+    ]);
+    expect(b.data.slice(-1)).toEqual([["TRIM", "LEATHER (optional)"]]);
+  });
+
+  it("names sheets by label, with the group name for several groups", () => {
+    expect(buildSpecSheets(analyze([ENGINE]), 0).map((s) => s.name)).toEqual([
+      "A",
+      "B",
+    ]);
+    expect(buildSpecSheets(analyze(), 0).map((s) => s.name)).toEqual([
+      "Engine A",
+      "Engine B",
+    ]);
+  });
+
+  it("shortens and cleans the group name but keeps the label", () => {
+    const named = { ...TRIM, name: "Trim/Paint: interior [2024] options" };
+    const names = buildSpecSheets(analyze([ENGINE, named]), 1).map(
+      (s) => s.name
+    );
+
+    expect(names).toEqual([
+      "Trim-Paint- interior -2024- o A",
+      "Trim-Paint- interior -2024- o B",
+      "Trim-Paint- interior -2024- o C",
+    ]);
+    expect(names.every((name) => name.length <= 31)).toBe(true);
+  });
+
+  it("returns no sheets for an unknown group", () => {
+    expect(buildSpecSheets(analyze(), 5)).toEqual([]);
+  });
+});
+
+describe("buildLongFormatRows", () => {
+  it("writes one row per grade column and selected item", () => {
+    expect(buildLongFormatRows(analyze([ENGINE]))).toEqual([
+      LONG_FORMAT_HEADER,
+      ["C", "LOW", "Engine", "A", "ENGINE", "V6", "O"],
+      ["C", "LOW", "Engine", "A", "ENGINE", "V8", "-"],
+      ["D", "MID", "Engine", "A", "ENGINE", "V6", "O"],
+      ["D", "MID", "Engine", "A", "ENGINE", "V8", "-"],
+      ["E", "HIGH", "Engine", "B", "ENGINE", "V6", "-"],
+      ["E", "HIGH", "Engine", "B", "ENGINE", "V8", "O"],
+      ["F", "TOP", "Engine", "B", "ENGINE", "V6", "-"],
+      ["F", "TOP", "Engine", "B", "ENGINE", "V8", "O"],
+    ]);
+  });
+
+  it("repeats items selected by several groups, once per group", () => {
+    const both = {
+      id: "both",
+      name: "Both",
+      selectedFeatures: { ENGINE: ["V6"], TRIM: ["LEATHER"] },
+    };
+    const rows = buildLongFormatRows(analyze([TRIM, both]));
+    const leatherInD = rows.filter(
+      (row) => row[0] === "D" && row[5] === "LEATHER"
+    );
+
+    expect(rows).toHaveLength(1 + 4 * 2 + 4 * 2);
+    expect(leatherInD).toEqual([
+      ["D", "MID", "Trim", "B", "TRIM", "LEATHER", "OP"],
+      ["D", "MID", "Both", "B", "TRIM", "LEATHER", "OP"],
+    ]);
+  });
+
+  it("reads back as a table of equal-width rows", () => {
+    const rows = buildLongFormatRows(analyze());
+    const parsed = parseDelimitedText(toDelimitedText(rows), ",");
+
+    expect(parsed).toEqual(rows);
+    expect(new Set(parsed.map((row) => row.length))).toEqual(new Set([7]));
+  });
+});
@@ -0,0 +1,337 @@
+/**
+ * Design Philosophy: Formal Minimal
+ * - Export layouts built from the variation model
+ * - Pure data in, sheet specs out (writing lives in workbookWriter)
+ */
+
+import type { CellVocabulary, VariationAnalysis } from "./types";
+import {
+  MAX_SHEET_NAME_LENGTH,
+  safeSheetName,
+  type StyledSheet,
+} from "./workbookUtils";
+import {
+  CELL_STATE_CODES,
+  CELL_STATE_LABELS,
+  DEFAULT_CELL_VOCABULARY,
+  METADATA_FIELDS,
+} from "./variationUtils";
+
+const NOT_AVAILABLE_FILL = "#EEEEEE";
+
+export type ResultExportFormat = "xlsx" | "csv" | "tsv" | "json";
+
+export const RESULT_EXPORT_FORMATS: Array<{
+  format: ResultExportFormat;
+  title: string;
+}> = [
+  { format: "xlsx", title: "Excel (.xlsx)" },
+  { format: "csv", title: "CSV, long format" },
+  { format: "tsv", title: "TSV, long format" },
+  { format: "json", title: "JSON (full analysis)" },
+];
+
+export interface ExportOptions {
+  vocabulary?: CellVocabulary;
+  activeGroupId?: number; // Group whose colors fill the data cells
+  includeLegend?: boolean; // Symbol legend below the data (default: true)
+}
+
+/**
+ * Metadata rows as [TITLE, "", ...value per column]
+ * Falls back to the legacy grade row when no GRADE label was found
+ */
+function metadataRowsFor(analysis: VariationAnalysis): any[][] {
+  const rows = METADATA_FIELDS.filter(
+    ({ field }) => analysis.metadataRows[field]
+  ).map(({ field, title }) => [
+    title,
+    "",
+    ...analysis.columnPatterns.map((cp) => cp.metadata[field]),
+  ]);
+
+  if (
+    !analysis.metadataRows.grade &&
+    analysis.columnPatterns.some((cp) => cp.gradeName)
+  ) {
+    rows.push([
+      "GRADE",
+      "",
+      ...analysis.columnPatterns.map((cp) => cp.gradeName),
+    ]);
+  }
+
+  return rows;
+}
+
+/**
+ * Build the results matrix sheet
+ * Layout: titled metadata rows aligned over their grade columns,
+ * one "Variation" label row per group, a Feature | Item | column letter
+ * table header, then the feature rows
+ */
+export function buildResultsSheet(
+  analysis: VariationAnalysis,
+  options: ExportOptions = {}
+): StyledSheet {
+  const vocabulary = options.vocabulary || DEFAULT_CELL_VOCABULARY;
+  const activeIndex = Math.max(
+    0,
+    analysis.groups.findIndex((g) => g.id === options.activeGroupId)
+  );
+
+  const data: any[][] = [];
+  const fills: (string | undefined)[][] = [];
+  const boldRows: number[] = [];
+
+  // Add metadata rows, titled in the feature column
+  metadataRowsFor(analysis).forEach((row) => {
+    boldRows.push(data.length);
+    data.push(row);
+    fills.push([]);
+  });
+
+  // Add one variation label row per group
+  analysis.groups.forEach((group, groupIdx) => {
+    boldRows.push(data.length);
+    data.push([
+      analysis.groups.length === 1 ? "Variation" : `Variation (${group.name})`,
+      "",
+      ...analysis.columnPatterns.map(
+        (cp) => cp.variations[groupIdx]?.label || ""
+      ),
+    ]);
+    fills.push([
+      undefined,
+      undefined,
+      ...analysis.columnPatterns.map(
+        (cp) => cp.variations[groupIdx]?.backgroundColor
+      ),
+    ]);
+  });
+
+  // Table header (frozen and filtered)
+  const tableHeaderRow = data.length;
+  boldRows.push(tableHeaderRow);
+  data.push([
+    "Feature",
+    "Item",
+    ...analysis.columnPatterns.map((cp) => cp.columnLetter),
+  ]);
+  fills.push([
+    undefined,
+    undefined,
+    ...analysis.columnPatterns.map(
+      (cp) => cp.variations[activeIndex]?.backgroundColor
+    ),
+  ]);
+
+  // Add feature rows with data
+  analysis.featureRows.forEach((row) => {
+    data.push([row.feature, row.item, ...row.values]);
+    fills.push([
+      undefined,
+      undefined,
+      ...row.states.map((state, colIdx) => {
+        if (state === "applies" || state === "optional") {
+          return analysis.columnPatterns[colIdx]?.variations[activeIndex]
+            ?.backgroundColor;
+        }
+        return state === "notAvailable" ? NOT_AVAILABLE_FILL : undefined;
+      }),
+    ]);
+  });
+  const lastDataRow = data.length - 1;
+
+  // Add symbol legend so optional and unavailable cells stay distinguishable
+  if (options.includeLegend !== false) {
+    data.push([]);
+    boldRows.push(data.length);
+    data.push(["Symbol", "Meaning"]);
+    Object.entries(vocabulary).forEach(([symbol, state]) => {
+      data.push([symbol, CELL_STATE_LABELS[state]]);
+    });
+  }
+
+  return {
+    name: "Results",
+    data,
+    fills,
+    boldRows,
+    frozen: { rows: tableHeaderRow + 1, columns: 2 },
+    autoFilter: {
+      fromRow: tableHeaderRow,
+      toRow: lastDataRow,
+      fromColumn: 0,
+      toColumn: analysis.columnPatterns.length + 1,
+    },
+    columnWidths: [24, 24],
+  };
+}
+
+/**
+ * Build the variation summary sheet
+ * One row per variation: label, color, grade count, grades and applied items
+ */
+export function buildSummarySheet(analysis: VariationAnalysis): StyledSheet {
+  const gradeByColumn = new Map(
+    analysis.columnPatterns.map((cp) => [cp.columnLetter, cp.gradeName])
+  );
+
+  const data: any[][] = [
+    [
+      "Group",
+      "Variation",
+      "Color",
+      "Grades",
+      "Grade Names",
+      "Columns",
+      "Applied Items",
+    ],
+  ];
+  const fills: (string | undefined)[][] = [[]];
+
+  analysis.groups.forEach((group) => {
+    group.patterns.forEach((pattern) => {
+      data.push([
+        group.name,
+        pattern.id,
+        pattern.color,
+        pattern.columns.length,
+        pattern.columns
+          .map((col) => gradeByColumn.get(col) || "")
+          .filter(Boolean)
+          .join(", "),
+        pattern.columns.join(", "),
+        pattern.itemNames.join(", "),
+      ]);
+      fills.push([undefined, pattern.color, pattern.color]);
+    });
+  });
+
+  return {
+    name: "Summary",
+    data,
+    fills,
+    boldRows: [0],
+    frozen: { rows: 1, columns: 0 },
+    columnWidths: [20, 10, 10, 8, 40, 30, 60],
+  };
+}
+
+/**
+ * Build one spec sheet per variation of a group
+ * Each sheet lists the grades with their metadata and, per selected
+ * feature, the item(s) applied in that variation
+ */
+export function buildSpecSheets(
+  analysis: VariationAnalysis,
+  groupId: number
+): StyledSheet[] {
+  const group = analysis.groups.find((g) => g.id === groupId);
+  if (!group) return [];
+
+  const groupRows = analysis.featureRows.filter((row) =>
+    row.groupIds.includes(groupId)
+  );
+  const features = Array.from(new Set(groupRows.map((row) => row.feature)));
+  const columnsByLetter = new Map(
+    analysis.columnPatterns.map((cp) => [cp.columnLetter, cp])
+  );
+  const metadataFields = METADATA_FIELDS.filter(
+    ({ field }) => field !== "grade" && analysis.metadataRows[field]
+  );
+  const usedNames = new Set<string>();
+  // Group name prefix, shortened so the variation label always fits
+  const sheetName = (label: string) => {
+    if (analysis.groups.length === 1) return label;
+    const maxLength = MAX_SHEET_NAME_LENGTH - label.length - 1;
+    return `${group.name.slice(0, maxLength).trimEnd()} ${label}`;
+  };
+
+  return group.patterns.map((pattern) => {
+    const cells = pattern.pattern ? pattern.pattern.split("|") : [];
+    const data: any[][] = [];
+    const boldRows: number[] = [];
+
+    data.push(["Variation", pattern.id]);
+    data.push(["Group", group.name]);
+    data.push([]);
+
+    // Grades with their metadata
+    boldRows.push(data.length);
+    data.push(["Column", "Grade", ...metadataFields.map((m) => m.title)]);
+    pattern.columns.forEach((col) => {
+      const cp = columnsByLetter.get(col);
+      data.push([
+        col,
+        cp?.gradeName || "",
+        ...metadataFields.map(({ field }) => cp?.metadata[field] || ""),
+      ]);
+    });
+    data.push([]);
+
+    // Applied items per selected feature
+    boldRows.push(data.length);
+    data.push(["Feature", "Applied Items"]);
+    features.forEach((feature) => {
+      const items = groupRows.flatMap((row, rowIdx) => {
+        if (row.feature !== feature) return [];
+        if (cells[rowIdx] === CELL_STATE_CODES.applies) return [row.item];
+        if (cells[rowIdx] === CELL_STATE_CODES.optional) {
+          return [`${row.item} (optional)`];
+        }
+        return [];
+      });
+      data.push([feature, items.join(", ") || "None"]);
+    });
+
+    return {
+      name: safeSheetName(sheetName(pattern.id), usedNames),
+      data,
+      fills: [[undefined, pattern.color]],
+      boldRows: [0, ...boldRows],
+      columnWidths: [24, 40, 16, 16, 16],
+    };
+  });
+}
+
+export const LONG_FORMAT_HEADER = [
+  "Column",
+  "Grade",
+  "Group",
+  "Variation",
+  "Feature",
+  "Item",
+  "Value",
+];
+
+/**
+ * Build long-format rows, one per grade column and selected item
+ * Rows are repeated for every group that selected the item
+ */
+export function buildLongFormatRows(analysis: VariationAnalysis): any[][] {
+  const rows: any[][] = [LONG_FORMAT_HEADER];
+
+  analysis.groups.forEach((group, groupIdx) => {
+    const groupRows = analysis.featureRows.filter((row) =>
+      row.groupIds.includes(groupIdx)
+    );
+
+    analysis.columnPatterns.forEach((cp, colIdx) => {
+      groupRows.forEach((row) => {
+        rows.push([
+          cp.columnLetter,
+          cp.gradeName,
+          group.name,
+          cp.variations[groupIdx]?.label || "",
+          row.feature,
+          row.item,
+          row.values[colIdx],
+        ]);
+      });
+    });
+  });
+
+  return rows;
+}
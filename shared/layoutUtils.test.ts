@@ -0,0 +1,86 @@
+import { describe, expect, it } from "vitest";
+import { detectLayout } from "./layoutUtils";
+
+// Notes in A, features in B, items in C, grades from D; grade names in row 1
+const F_LIST = [
+  ["", "", "GRADE", "LOW", "MID", "HIGH", "TOP"],
+  ["", "ENGINE", "V6", "O", "-", "O", "."],
+  ["", "", "V8", "-", "O", "-", "O"],
+  ["", "TRIM", "CLOTH", "O", "O", "-", "-"],
+  ["", "", "LEATHER", "-", "-", "OP", "O"],
+];
+
+describe("detectLayout", () => {
+  it("finds the columns and first row of a full symbol block", () => {
+    expect(detectLayout(F_LIST)).toEqual({
+      featureColumn: "B",
+      itemColumn: "C",
+      startRow: 2,
+      startDataColumn: "D",
+      confidence: 1,
+    });
+  });
+
+  it("lowers confidence for a sparse block", () => {
+    // One blank per data row: 12 of 16 block cells hold a symbol
+    const sparse = F_LIST.map((row, i) =>
+      i === 0 ? row : row.map((cell, j) => (j === i + 2 ? "" : cell))
+    );
+    const layout = detectLayout(sparse);
+
+    expect(layout?.startDataColumn).toBe("D");
+    // 0.75 * 0.5 for density + 0.3 item fill + 0.2 feature column
+    expect(layout?.confidence).toBe(0.88);
+  });
+
+  it("uses the item column as feature column when there is no other", () => {
+    const itemsOnly = F_LIST.map((row) => row.slice(2));
+    const layout = detectLayout(itemsOnly);
+
+    expect(layout).toMatchObject({
+      featureColumn: "A",
+      itemColumn: "A",
+      startRow: 2,
+      startDataColumn: "B",
+    });
+    expect(layout?.confidence).toBe(0.8);
+  });
+
+  it("returns null without a symbol block right of some text", () => {
+    expect(detectLayout([])).toBeNull();
+    expect(detectLayout([["Title"], ["Notes"]])).toBeNull();
+    // A single symbol is no block
+    expect(detectLayout([["ENGINE", "O"]])).toBeNull();
+    // Symbols from column A leave no room for names
+    expect(
+      detectLayout([
+        ["O", "-"],
+        ["-", "O"],
+      ])
+    ).toBeNull();
+  });
+
+  it("detects custom symbols only with their vocabulary", () => {
+    const yesNo = F_LIST.map((row, i) =>
+      i === 0
+        ? row
+        : row.map((cell, j) => (j < 3 ? cell : cell === "O" ? "Y" : "N"))
+    );
+
+    expect(detectLayout(yesNo)).toBeNull();
+    expect(
+      detectLayout(yesNo, { Y: "applies", N: "notApplies" })
+    ).toMatchObject({ itemColumn: "C", startRow: 2, startDataColumn: "D" });
+  });
+
+  it("does not take inherited object keys for symbols", () => {
+    const names = F_LIST.map((row) =>
+      row.map((cell) => (cell === "V6" ? "constructor" : cell))
+    );
+
+    expect(detectLayout(names)).toMatchObject({
+      itemColumn: "C",
+      startDataColumn: "D",
+    });
+  });
+});
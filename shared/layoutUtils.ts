@@ -0,0 +1,141 @@
+/**
+ * Design Philosophy: Formal Minimal
+ * - Guess the F-List layout from the raw grid
+ * - Densest block of applicability symbols = grade data
+ * - Text columns to its left = feature / item names
+ */
+
+import type { CellVocabulary, DetectedLayout } from "./types";
+import {
+  DEFAULT_CELL_VOCABULARY,
+  indexToColumnLetter,
+  lookupCellSymbol,
+} from "./variationUtils";
+
+// Share of the densest column/row a line needs to count as part of the block
+const DENSITY_THRESHOLD = 0.3;
+
+function isSymbolCell(value: any, vocabulary: CellVocabulary): boolean {
+  return lookupCellSymbol(value, vocabulary) !== undefined;
+}
+
+function isTextCell(value: any, vocabulary: CellVocabulary): boolean {
+  const text = String(value ?? "").trim();
+  return !!text && !isSymbolCell(text, vocabulary);
+}
+
+/**
+ * Longest run of dense indices, tolerating single-index gaps
+ */
+function longestDenseRun(
+  counts: number[],
+  threshold: number
+): { start: number; end: number } | null {
+  let best: { start: number; end: number } | null = null;
+  let runStart = -1;
+  let lastDense = -1;
+
+  for (let i = 0; i <= counts.length; i++) {
+    const dense = i < counts.length && counts[i] >= threshold;
+    if (dense) {
+      if (runStart < 0 || i - lastDense > 2) runStart = i;
+      lastDense = i;
+      if (!best || lastDense - runStart > best.end - best.start) {
+        best = { start: runStart, end: lastDense };
+      }
+    }
+  }
+
+  return best;
+}
+
+/**
+ * Propose feature/item columns, start row and first data column
+ * Returns null when the sheet has no recognizable symbol block
+ */
+export function detectLayout(
+  rawData: any[][],
+  vocabulary: CellVocabulary = DEFAULT_CELL_VOCABULARY
+): DetectedLayout | null {
+  const width = rawData.reduce((max, row) => Math.max(max, row?.length || 0), 0);
+  if (width === 0) return null;
+
+  // Symbol counts per column
+  const columnCounts = new Array<number>(width).fill(0);
+  for (const row of rawData) {
+    if (!row) continue;
+    for (let j = 0; j < row.length; j++) {
+      if (isSymbolCell(row[j], vocabulary)) columnCounts[j]++;
+    }
+  }
+
+  const maxColumnCount = Math.max(...columnCounts);
+  if (maxColumnCount < 2) return null;
+
+  const columnRun = longestDenseRun(
+    columnCounts,
+    Math.max(2, maxColumnCount * DENSITY_THRESHOLD)
+  );
+  if (!columnRun || columnRun.start === 0) return null;
+
+  // Symbol counts per row, restricted to the data columns
+  const rowCounts = rawData.map((row) => {
+    let count = 0;
+    for (let j = columnRun.start; j <= columnRun.end; j++) {
+      if (isSymbolCell(row?.[j], vocabulary)) count++;
+    }
+    return count;
+  });
+
+  const maxRowCount = Math.max(...rowCounts);
+  const rowRun = longestDenseRun(
+    rowCounts,
+    Math.max(1, maxRowCount * DENSITY_THRESHOLD)
+  );
+  if (!rowRun) return null;
+
+  // Text fill of each column left of the data block within the data rows
+  const rowSpan = rowRun.end - rowRun.start + 1;
+  const textFill: number[] = [];
+  for (let j = 0; j < columnRun.start; j++) {
+    let filled = 0;
+    for (let i = rowRun.start; i <= rowRun.end; i++) {
+      if (isTextCell(rawData[i]?.[j], vocabulary)) filled++;
+    }
+    textFill.push(filled / rowSpan);
+  }
+
+  // Item column: the most filled text column, nearest to the data on ties
+  let itemIndex = -1;
+  for (let j = textFill.length - 1; j >= 0; j--) {
+    if (itemIndex < 0 || textFill[j] > textFill[itemIndex]) itemIndex = j;
+  }
+  if (itemIndex < 0 || textFill[itemIndex] === 0) return null;
+
+  // Feature column: nearest text column left of the item column
+  let featureIndex = -1;
+  for (let j = itemIndex - 1; j >= 0; j--) {
+    if (textFill[j] > 0) {
+      featureIndex = j;
+      break;
+    }
+  }
+
+  // Confidence: symbol density of the block, item fill and a feature column
+  const blockWidth = columnRun.end - columnRun.start + 1;
+  let blockSymbols = 0;
+  for (let i = rowRun.start; i <= rowRun.end; i++) blockSymbols += rowCounts[i];
+  const density = blockSymbols / (blockWidth * rowSpan);
+  const confidence =
+    density * 0.5 + textFill[itemIndex] * 0.3 + (featureIndex >= 0 ? 0.2 : 0);
+
+  return {
+    featureColumn: indexToColumnLetter(
+      featureIndex >= 0 ? featureIndex : itemIndex
+    ),
+    itemColumn: indexToColumnLetter(itemIndex),
+    startRow: rowRun.start + 1,
+    startDataColumn: indexToColumnLetter(columnRun.start),
+    confidence: Math.round(confidence * 100) / 100,
+  };
+}
@@ -0,0 +1,132 @@
+/**
+ * Design Philosophy: Formal Minimal
+ * - Clean, simple data structures
+ * - Flexible variation grouping
+ */
+
+export interface Feature {
+  name: string;
+  items: FeatureItem[];
+  isSelected: boolean;
+}
+
+export interface FeatureItem {
+  name: string;
+  isSelected: boolean;
+}
+
+export type CellState = "applies" | "notApplies" | "notAvailable" | "optional";
+
+export interface CellVocabulary {
+  [symbol: string]: CellState; // e.g., "O" -> applies, "OP" -> optional
+}
+
+export type MetadataField = "plant" | "model" | "destination" | "grade";
+
+export type MetadataRows = Partial<Record<MetadataField, number>>; // 1-based row numbers
+
+export type LabelStyle = "letters" | "numbers"; // A…Z, AA… or 1, 2, 3…
+
+export interface Configuration {
+  featureColumn: string; // e.g., "M"
+  itemColumn: string; // e.g., "N"
+  startRow: number; // e.g., 19
+  startDataColumn: string; // e.g., "V"
+  selectedFeatures: string[]; // Feature names to include
+  cellVocabulary: CellVocabulary;
+  labelStyle: LabelStyle;
+  metadataRows: MetadataRows; // User overrides, detected by label when absent
+}
+
+export interface DetectedLayout {
+  featureColumn: string;
+  itemColumn: string;
+  startRow: number;
+  startDataColumn: string;
+  confidence: number; // 0..1
+}
+
+export interface ImportedData {
+  rawData: any[][];
+  headers: any[];
+  features: Feature[];
+  sheetName: string;
+  detectedLayout: DetectedLayout | null;
+}
+
+export interface VariationGroupConfig {
+  id: string;
+  name: string;
+  selectedFeatures: { [featureName: string]: string[] };
+}
+
+export interface VariationPattern {
+  id: string; // Variation label, e.g., "A"
+  pattern: string; // e.g., "O|-|O|O"
+  columns: string[]; // Column letters where this pattern appears
+  itemNames: string[]; // Items that are "O" in this pattern, e.g., "HANDLE > PH"
+  color: string;
+}
+
+export interface VariationGroup {
+  id: number;
+  configId: string; // VariationGroupConfig the group was built from
+  name: string;
+  patterns: VariationPattern[];
+  color?: string;
+}
+
+export interface ColumnVariation {
+  groupId: number;
+  label: string; // Pattern id within the group, e.g., "A"
+  backgroundColor: string;
+}
+
+export interface AnalyzedColumn {
+  columnLetter: string;
+  gradeName: string;
+  metadata: Record<MetadataField, string>;
+  variations: ColumnVariation[]; // One entry per variation group
+}
+
+export interface FeatureRow {
+  feature: string;
+  item: string;
+  values: string[];
+  states: CellState[]; // Applicability of each value
+  groupIds: number[]; // Variation groups that selected this item
+}
+
+export interface VariationAnalysis {
+  groups: VariationGroup[];
+  columnMappings: {
+    [colKey: string]: {
+      groupIds: number[];
+      patterns: string[]; // Pattern id per entry in groupIds
+    };
+  };
+  headerRows: any[][];
+  metadataRows: MetadataRows; // Rows the metadata fields were read from
+  featureRows: FeatureRow[];
+  columnPatterns: AnalyzedColumn[];
+}
+
+export interface SourceWorkbook {
+  fileName: string;
+  data: ArrayBuffer; // Original upload, kept for write-back exports
+}
+
+export interface ProjectState {
+  configuration: Configuration | null;
+  importedData: ImportedData | null;
+  variationAnalysis: VariationAnalysis | null;
+  selectedSheet: string | null;
+  sourceWorkbook: SourceWorkbook | null;
+  variationGroups: VariationGroupConfig[];
+}
+
+export interface VariantSummaryRow {
+  variantId: number;
+  features: { [key: string]: string };
+  mapId: string;
+}
@@ -0,0 +1,182 @@
+import { describe, expect, it } from "vitest";
+import type { VariationGroupConfig } from "./types";
+import {
+  buildFeatureMatrix,
+  indexToColumnLetter,
+  partitionGroup,
+  lookupCellSymbol,
+  partitionMatrixColumns,
+  resolveCellState,
+  selectMatrixItems,
+} from "./variationUtils";
+
+// Feature in A, item in B, grade columns from C, feature rows from row 1
+const LAYOUT = {
+  featureColumn: "A",
+  itemColumn: "B",
+  startRow: 1,
+  startDataColumn: "C",
+};
+const DATA_START = 2;
+
+const SYMBOLS = ["O", "-", ".", "OP", ""];
+
+/**
+ * Small deterministic generator, so failures reproduce
+ */
+function random(seed: number) {
+  let state = seed;
+  return () => {
+    state = (state * 1103515245 + 12345) & 0x7fffffff;
+    return state / 0x7fffffff;
+  };
+}
+
+/**
+ * One row per item; items are grouped into features of `itemsPerFeature`
+ */
+function buildGrid(cells: string[][], itemsPerFeature: number): any[][] {
+  return cells.map((row, i) => [
+    i % itemsPerFeature === 0 ? `F${Math.floor(i / itemsPerFeature)}` : "",
+    `I${i}`,
+    ...row,
+  ]);
+}
+
+function selectionOf(grid: any[][], rows: number[], itemsPerFeature: number) {
+  const selected: VariationGroupConfig["selectedFeatures"] = {};
+  for (const row of rows) {
+    const feature = `F${Math.floor(row / itemsPerFeature)}`;
+    (selected[feature] ||= []).push(grid[row][1]);
+  }
+  return selected;
+}
+
+/**
+ * Reference partition: compare the selected cells of every column directly
+ */
+function naivePartition(grid: any[][], rows: number[]): string[][] {
+  const columnCount = grid[0].length - DATA_START;
+  const partitions = new Map<string, string[]>();
+  for (let col = 0; col < columnCount; col++) {
+    const key = [...rows]
+      .sort((a, b) => a - b)
+      .map((row) => resolveCellState(grid[row][DATA_START + col]))
+      .join("|");
+    const letter = indexToColumnLetter(DATA_START + col);
+    partitions.set(key, [...(partitions.get(key) || []), letter]);
+  }
+  return Array.from(partitions.values());
+}
+
+function matrixPartition(
+  grid: any[][],
+  rows: number[],
+  itemsPerFeature: number
+) {
+  const group: VariationGroupConfig = {
+    id: "g",
+    name: "Group",
+    selectedFeatures: selectionOf(grid, rows, itemsPerFeature),
+  };
+  return partitionGroup(buildFeatureMatrix(grid, LAYOUT), group).patterns.map(
+    (pattern) => pattern.columns
+  );
+}
+
+describe("feature matrix partitions", () => {
+  it("match a naive per-column scan on random sheets", () => {
+    const next = random(42);
+    for (let trial = 0; trial < 20; trial++) {
+      const itemCount = 1 + Math.floor(next() * 90);
+      const columnCount = 1 + Math.floor(next() * 40);
+      // Few distinct symbols per sheet, so columns do collide
+      const palette = SYMBOLS.filter(() => next() < 0.6);
+      const cells = Array.from({ length: itemCount }, () =>
+        Array.from(
+          { length: columnCount },
+          () => palette[Math.floor(next() * palette.length)] ?? "O"
+        )
+      );
+      // Keep the last column filled so the data range covers every column
+      cells[0][columnCount - 1] = "O";
+      const grid = buildGrid(cells, 3);
+      const rows = cells.map((_, row) => row).filter(() => next() < 0.3);
+      if (rows.length === 0) rows.push(0);
+
+      expect(matrixPartition(grid, rows, 3)).toEqual(
+        naivePartition(grid, rows)
+      );
+    }
+  });
+
+  it("compares selections that cross a 32-item word boundary", () => {
+    // 70 items: columns C and D differ only in item 33, E and F only in item 64
+    const cells = Array.from({ length: 70 }, () => ["O", "O", "-", "-"]);
+    cells[33][1] = "-";
+    cells[64][3] = "O";
+    const grid = buildGrid(cells, 10);
+    const allRows = cells.map((_, row) => row);
+
+    expect(matrixPartition(grid, allRows, 10)).toEqual([
+      ["C"],
+      ["D"],
+      ["E"],
+      ["F"],
+    ]);
+    // Without the differing items the pairs collapse
+    const withoutDiffs = allRows.filter((row) => row !== 33 && row !== 64);
+    expect(matrixPartition(grid, withoutDiffs, 10)).toEqual([
+      ["C", "D"],
+      ["E", "F"],
+    ]);
+    // Items 31 and 32 sit in different words
+    expect(matrixPartition(grid, [31, 32, 33], 10)).toEqual([
+      ["C"],
+      ["D"],
+      ["E", "F"],
+    ]);
+  });
+
+  it("masks unselected items in every word", () => {
+    const cells = Array.from({ length: 40 }, (_, row) => [
+      "O",
+      row === 5 || row === 35 ? "-" : "O",
+    ]);
+    const grid = buildGrid(cells, 40);
+    const matrix = buildFeatureMatrix(grid, LAYOUT);
+    const rows = [0, 1, 2, 36, 39];
+    const { mask } = selectMatrixItems(matrix, selectionOf(grid, rows, 40));
+
+    expect(partitionMatrixColumns(matrix, mask)).toEqual([[0, 1]]);
+  });
+
+  it("keeps optional, not applied and not available apart", () => {
+    const grid = buildGrid([["O", "OP", "-", ".", "○", "", "S"]], 1);
+
+    expect(matrixPartition(grid, [0], 1)).toEqual([
+      ["C", "I"],
+      ["D", "G"],
+      ["E", "H"],
+      ["F"],
+    ]);
+  });
+});
+
+describe("cell symbols", () => {
+  it("resolves exact symbols before upper-cased ones", () => {
+    const vocabulary = { x: "optional", X: "applies" } as const;
+
+    expect(resolveCellState(" x ", vocabulary)).toBe("optional");
+    expect(resolveCellState("op")).toBe("optional");
+    expect(resolveCellState("", vocabulary)).toBe("notApplies");
+    expect(resolveCellState("?", vocabulary)).toBe("notApplies");
+  });
+
+  it("ignores keys inherited from Object.prototype", () => {
+    for (const text of ["constructor", "toString", "__proto__"]) {
+      expect(lookupCellSymbol(text)).toBeUndefined();
+      expect(resolveCellState(text)).toBe("notApplies");
+    }
+  });
+});
@@ -0,0 +1,673 @@
+/**
+ * Design Philosophy: Formal Minimal
+ * - Pattern-based variation grouping
+ * - Support N-way variation grouping
+ * - Framework-free: shared by the client, server API and CLI
+ * - Sheet parsed once into a bitset matrix, partitions computed from it
+ * 
+ * Data Model:
+ * - Base data: 1 Excel file, 1 Worksheet (F-List)
+ * - Metadata rows: before startRow (Grade, Destination, Plant, Model)
+ * - Feature + Item rows: from startRow onwards
+ *   - Feature column: contains feature name or blank (if item of same feature)
+ *   - Item column: contains item name
+ * - Grade columns: from firstGradeColumn onwards (O/- values)
+ * - Variation: rule for grouping columns by pattern
+ */
+
+import type {
+  AnalyzedColumn,
+  CellState,
+  CellVocabulary,
+  Feature,
+  FeatureRow,
+  LabelStyle,
+  MetadataField,
+  MetadataRows,
+  VariationAnalysis,
+  VariationGroup,
+  VariationGroupConfig,
+  VariationPattern,
+} from "./types";
+
+/**
+ * Default cell symbols found in F-Lists
+ */
+export const DEFAULT_CELL_VOCABULARY: CellVocabulary = {
+  O: "applies",
+  S: "applies",
+  "●": "applies",
+  OP: "optional",
+  "○": "optional",
+  "-": "notApplies",
+  ".": "notAvailable",
+};
+
+/**
+ * Pattern character for each cell state
+ */
+export const CELL_STATE_CODES: Record<CellState, string> = {
+  applies: "O",
+  notApplies: "-",
+  notAvailable: ".",
+  optional: "P",
+};
+
+/**
+ * Human-readable name for each cell state
+ */
+export const CELL_STATE_LABELS: Record<CellState, string> = {
+  applies: "Applies",
+  notApplies: "Not applied",
+  notAvailable: "Not available",
+  optional: "Optional",
+};
+
+/**
+ * State of a cell symbol, exact match first, then upper case
+ * Own keys only, so "constructor" and the like are not symbols
+ */
+export function lookupCellSymbol(
+  value: any,
+  vocabulary: CellVocabulary = DEFAULT_CELL_VOCABULARY
+): CellState | undefined {
+  const symbol = String(value ?? "").trim();
+  if (!symbol) return undefined;
+  if (Object.hasOwn(vocabulary, symbol)) return vocabulary[symbol];
+  const upper = symbol.toUpperCase();
+  return Object.hasOwn(vocabulary, upper) ? vocabulary[upper] : undefined;
+}
+
+/**
+ * Resolve a cell value to its state (unknown symbols do not apply)
+ */
+export function resolveCellState(
+  value: any,
+  vocabulary: CellVocabulary = DEFAULT_CELL_VOCABULARY
+): CellState {
+  return lookupCellSymbol(value, vocabulary) || "notApplies";
+}
+
+/**
+ * Convert column letter to index (A=0, B=1, ..., Z=25, AA=26, etc.)
+ */
+export function columnLetterToIndex(letter: string): number {
+  let index = 0;
+  for (let i = 0; i < letter.length; i++) {
+    index = index * 26 + (letter.charCodeAt(i) - 64);
+  }
+  return index - 1;
+}
+
+/**
+ * Convert index to column letter (0=A, 1=B, ..., 25=Z, 26=AA, etc.)
+ */
+export function indexToColumnLetter(index: number): string {
+  let letter = "";
+  index++;
+  while (index > 0) {
+    index--;
+    letter = String.fromCharCode(65 + (index % 26)) + letter;
+    index = Math.floor(index / 26);
+  }
+  return letter;
+}
+
+/**
+ * Parse a cell address ("C5") into 0-based row and column indexes
+ */
+export function parseCellAddress(
+  address: string
+): { row: number; column: number } | null {
+  const match = /^\s*([A-Za-z]{1,3})\s*(\d+)\s*$/.exec(address);
+  if (!match || Number(match[2]) < 1) return null;
+  return {
+    row: Number(match[2]) - 1,
+    column: columnLetterToIndex(match[1].toUpperCase()),
+  };
+}
+
+/**
+ * Extract features and items from Excel data
+ * Handles blank cells in feature column (items of same feature)
+ */
+export function extractFeatures(
+  rawData: any[][],
+  config: {
+    featureColumn: string;
+    itemColumn: string;
+    startRow: number;
+  }
+): Feature[] {
+  const featureColIndex = columnLetterToIndex(config.featureColumn);
+  const itemColIndex = columnLetterToIndex(config.itemColumn);
+  const startRowIndex = config.startRow - 1;
+
+  const featureList: Feature[] = [];
+  let currentFeature: Feature | null = null;
+
+  // Extract features and items from data
+  for (let i = startRowIndex; i < rawData.length; i++) {
+    const row = rawData[i];
+    if (!row || row.length <= Math.max(featureColIndex, itemColIndex)) break;
+
+    const featureName = String(row[featureColIndex] || "").trim();
+    const itemName = String(row[itemColIndex] || "").trim();
+
+    // Stop if both feature and item are empty
+    if (!featureName && !itemName) break;
+
+    // If feature name is provided, create new feature
+    if (featureName) {
+      currentFeature = {
+        name: featureName,
+        items: [],
+        isSelected: false,
+      };
+      featureList.push(currentFeature);
+    }
+
+    // Add item to current feature
+    if (itemName && currentFeature) {
+      currentFeature.items.push({
+        name: itemName,
+        isSelected: true, // Default: select all items
+      });
+    }
+  }
+
+  return featureList;
+}
+
+/**
+ * Metadata fields in display order with the labels that identify their rows
+ */
+export const METADATA_FIELDS: Array<{
+  field: MetadataField;
+  title: string;
+  labels: string[];
+}> = [
+  { field: "plant", title: "PLANT", labels: ["PLANT"] },
+  { field: "model", title: "MODEL", labels: ["MODEL"] },
+  { field: "destination", title: "DESTINATION", labels: ["DESTINATION", "DEST"] },
+  { field: "grade", title: "GRADE", labels: ["GRADE"] },
+];
+
+/**
+ * Find metadata rows above startRow by their label cells
+ * Labels are searched left of the first data column
+ */
+export function detectMetadataRows(
+  rawData: any[][],
+  config: {
+    startRow: number;
+    startDataColumn: string;
+  }
+): MetadataRows {
+  const startRowIndex = config.startRow - 1;
+  const startDataColIndex = columnLetterToIndex(config.startDataColumn);
+  const detected: MetadataRows = {};
+
+  for (let i = 0; i < Math.min(startRowIndex, rawData.length); i++) {
+    const row = rawData[i];
+    if (!row) continue;
+
+    for (let j = 0; j < Math.min(startDataColIndex, row.length); j++) {
+      const text = String(row[j] || "")
+        .trim()
+        .toUpperCase()
+        .replace(/[\s:.]+$/, "");
+      if (!text) continue;
+
+      const match = METADATA_FIELDS.find(
+        (m) => !detected[m.field] && m.labels.includes(text)
+      );
+      if (match) {
+        detected[match.field] = i + 1;
+        break;
+      }
+    }
+  }
+
+  return detected;
+}
+
+/**
+ * Find all data columns (from startDataColumn to last column with data)
+ */
+export function findDataColumnRange(
+  rawData: any[][],
+  startDataColumn: string
+): { start: number; end: number } {
+  const startIndex = columnLetterToIndex(startDataColumn);
+  let endIndex = startIndex;
+
+  // Find last column with data, scanning each row from its end
+  for (let i = 0; i < rawData.length; i++) {
+    const row = rawData[i];
+    if (!row) continue;
+
+    for (let j = row.length - 1; j > endIndex; j--) {
+      if (row[j] && String(row[j]).trim()) {
+        endIndex = j;
+        break;
+      }
+    }
+  }
+
+  return { start: startIndex, end: endIndex };
+}
+
+/**
+ * Feature x item x column matrix, parsed once per sheet layout
+ * Each column stores its cell states as two bitsets over the items
+ * (low and high bit of the state code), so partitioning a selection
+ * is a masked comparison of a few words per column
+ */
+export interface FeatureMatrix {
+  items: Array<{ feature: string; item: string; rowIndex: number }>;
+  columnRange: { start: number; end: number };
+  words: number; // Uint32 words per column bitset
+  low: Uint32Array; // columnCount * words
+  high: Uint32Array;
+}
+
+const STATE_BITS: Record<CellState, number> = {
+  notApplies: 0,
+  applies: 1,
+  notAvailable: 2,
+  optional: 3,
+};
+
+const STATES_BY_BITS: CellState[] = [
+  "notApplies",
+  "applies",
+  "notAvailable",
+  "optional",
+];
+
+/**
+ * Parse the feature rows and data columns of a sheet into a matrix
+ */
+export function buildFeatureMatrix(
+  rawData: any[][],
+  config: {
+    featureColumn: string;
+    itemColumn: string;
+    startRow: number;
+    startDataColumn: string;
+  },
+  vocabulary: CellVocabulary = DEFAULT_CELL_VOCABULARY
+): FeatureMatrix {
+  const featureColIndex = columnLetterToIndex(config.featureColumn);
+  const itemColIndex = columnLetterToIndex(config.itemColumn);
+  const items: FeatureMatrix["items"] = [];
+  let currentFeature: string | null = null;
+
+  for (let i = config.startRow - 1; i < rawData.length; i++) {
+    const row = rawData[i];
+    if (!row || row.length <= Math.max(featureColIndex, itemColIndex)) break;
+
+    const featureName = String(row[featureColIndex] || "").trim();
+    const itemName = String(row[itemColIndex] || "").trim();
+
+    if (!featureName && !itemName) break;
+
+    if (featureName) {
+      currentFeature = featureName;
+    }
+    if (currentFeature && itemName) {
+      items.push({ feature: currentFeature, item: itemName, rowIndex: i });
+    }
+  }
+
+  const columnRange = findDataColumnRange(rawData, config.startDataColumn);
+  const columnCount = columnRange.end - columnRange.start + 1;
+  const words = Math.ceil(items.length / 32);
+  const low = new Uint32Array(columnCount * words);
+  const high = new Uint32Array(columnCount * words);
+
+  items.forEach(({ rowIndex }, itemIdx) => {
+    const row = rawData[rowIndex];
+    const word = itemIdx >>> 5;
+    const bit = 1 << (itemIdx & 31);
+    for (let col = 0; col < columnCount; col++) {
+      const bits =
+        STATE_BITS[resolveCellState(row[columnRange.start + col], vocabulary)];
+      if (bits & 1) low[col * words + word] |= bit;
+      if (bits & 2) high[col * words + word] |= bit;
+    }
+  });
+
+  return { items, columnRange, words, low, high };
+}
+
+/**
+ * State of one item in one column (column offset from the range start)
+ */
+export function matrixCellState(
+  matrix: FeatureMatrix,
+  itemIdx: number,
+  col: number
+): CellState {
+  const offset = col * matrix.words + (itemIdx >>> 5);
+  const bit = 1 << (itemIdx & 31);
+  return STATES_BY_BITS[
+    (matrix.low[offset] & bit ? 1 : 0) | (matrix.high[offset] & bit ? 2 : 0)
+  ];
+}
+
+/**
+ * Items of the matrix selected by a group, in sheet order, with their mask
+ */
+export function selectMatrixItems(
+  matrix: FeatureMatrix,
+  selectedFeatures: VariationGroupConfig["selectedFeatures"]
+): { indexes: number[]; mask: Uint32Array } {
+  const selected = new Map(
+    Object.entries(selectedFeatures).map(([feature, items]) => [
+      feature,
+      new Set(items),
+    ])
+  );
+  const indexes: number[] = [];
+  const mask = new Uint32Array(matrix.words);
+
+  matrix.items.forEach(({ feature, item }, itemIdx) => {
+    if (selected.get(feature)?.has(item)) {
+      indexes.push(itemIdx);
+      mask[itemIdx >>> 5] |= 1 << (itemIdx & 31);
+    }
+  });
+
+  return { indexes, mask };
+}
+
+/**
+ * Group column offsets whose masked states are identical
+ * Partitions are returned in order of first appearance
+ */
+export function partitionMatrixColumns(
+  matrix: FeatureMatrix,
+  mask: Uint32Array
+): number[][] {
+  const { words, low, high } = matrix;
+  const activeWords: number[] = [];
+  mask.forEach((word, w) => {
+    if (word) activeWords.push(w);
+  });
+
+  const partitions = new Map<string, number[]>();
+  const columnCount = matrix.columnRange.end - matrix.columnRange.start + 1;
+  for (let col = 0; col < columnCount; col++) {
+    let key = "";
+    for (const w of activeWords) {
+      const offset = col * words + w;
+      key += `${(low[offset] & mask[w]) >>> 0},${(high[offset] & mask[w]) >>> 0};`;
+    }
+
+    const columns = partitions.get(key);
+    if (columns) {
+      columns.push(col);
+    } else {
+      partitions.set(key, [col]);
+    }
+  }
+
+  return Array.from(partitions.values());
+}
+
+const VARIATION_COLORS = [
+  "#FFE5E5", // Light red
+  "#E5F3FF", // Light blue
+  "#E5FFE5", // Light green
+  "#FFF9E5", // Light yellow
+  "#F0E5FF", // Light purple
+  "#FFE5F5", // Light pink
+  "#E5FFFF", // Light cyan
+  "#FFE5CC", // Light orange
+];
+
+/**
+ * Label for the n-th variation (A…Z, AA, AB… or 1, 2, 3…)
+ */
+export function variationLabel(
+  index: number,
+  style: LabelStyle = "letters"
+): string {
+  return style === "numbers" ? String(index + 1) : indexToColumnLetter(index);
+}
+
+/**
+ * Background color for the n-th variation
+ * Uses the base palette first, then spreads hues by the golden angle
+ */
+export function variationColor(index: number): string {
+  if (index < VARIATION_COLORS.length) return VARIATION_COLORS[index];
+
+  const generated = index - VARIATION_COLORS.length;
+  const hue = (generated * 137.508 + 15) % 360;
+  const lightness = [88, 80, 93][generated % 3];
+  return hslToHex(hue, 70, lightness);
+}
+
+function hslToHex(h: number, s: number, l: number): string {
+  const sat = s / 100;
+  const light = l / 100;
+  const a = sat * Math.min(light, 1 - light);
+  const channel = (n: number) => {
+    const k = (n + h / 30) % 12;
+    const value = light - a * Math.max(-1, Math.min(k - 3, 9 - k, 1));
+    return Math.round(value * 255)
+      .toString(16)
+      .padStart(2, "0")
+      .toUpperCase();
+  };
+  return `#${channel(0)}${channel(8)}${channel(4)}`;
+}
+
+/**
+ * Group data columns by their pattern over one group's selected items
+ */
+function partitionColumns(
+  matrix: FeatureMatrix,
+  labelStyle: LabelStyle,
+  group: VariationGroupConfig,
+  groupIndex: number,
+  selection: { indexes: number[]; mask: Uint32Array }
+): VariationGroup {
+  const { start } = matrix.columnRange;
+
+  const patterns = partitionMatrixColumns(matrix, selection.mask).map(
+    (columns, patternIndex): VariationPattern => {
+      const states = selection.indexes.map((itemIdx) =>
+        matrixCellState(matrix, itemIdx, columns[0])
+      );
+      return {
+        id: variationLabel(patternIndex, labelStyle),
+        pattern: states.map((state) => CELL_STATE_CODES[state]).join("|"),
+        columns: columns.map((col) => indexToColumnLetter(start + col)),
+        itemNames: selection.indexes
+          .filter((_, i) => states[i] === "applies")
+          .map((itemIdx) => {
+            const { feature, item } = matrix.items[itemIdx];
+            return `${feature} > ${item}`;
+          }),
+        color: variationColor(patternIndex),
+      };
+    }
+  );
+
+  return {
+    id: groupIndex,
+    configId: group.id,
+    name: group.name,
+    patterns,
+    color: variationColor(groupIndex),
+  };
+}
+
+/**
+ * Partition the columns for a single group, for live previews
+ */
+export function partitionGroup(
+  matrix: FeatureMatrix,
+  group: VariationGroupConfig,
+  labelStyle: LabelStyle = "letters"
+): VariationGroup {
+  return partitionColumns(
+    matrix,
+    labelStyle,
+    group,
+    0,
+    selectMatrixItems(matrix, group.selectedFeatures)
+  );
+}
+
+/**
+ * Analyze variations and build the full variation model
+ * Pass a matrix built for the same sheet and layout to skip re-parsing
+ */
+export function analyzeVariations(
+  rawData: any[][],
+  config: {
+    featureColumn: string;
+    itemColumn: string;
+    startRow: number;
+    startDataColumn: string;
+    cellVocabulary?: CellVocabulary;
+    labelStyle?: LabelStyle;
+    metadataRows?: MetadataRows;
+  },
+  variationGroups: VariationGroupConfig[],
+  matrix: FeatureMatrix = buildFeatureMatrix(
+    rawData,
+    config,
+    config.cellVocabulary
+  )
+): VariationAnalysis {
+  const startRowIndex = config.startRow - 1;
+  const { start: startDataColIndex, end: endDataColIndex } =
+    matrix.columnRange;
+  const columnCount = endDataColIndex - startDataColIndex + 1;
+
+  // Extract header rows (before feature data starts)
+  const headerRows: any[][] = [];
+  for (let i = 0; i < startRowIndex; i++) {
+    if (rawData[i]) {
+      headerRows.push(
+        rawData[i].slice(startDataColIndex, endDataColIndex + 1)
+      );
+    }
+  }
+
+  // Locate metadata rows, user overrides win over detected labels
+  const metadataRows = detectMetadataRows(rawData, config);
+  for (const [field, rowNumber] of Object.entries(config.metadataRows || {})) {
+    if (rowNumber) metadataRows[field as MetadataField] = rowNumber;
+  }
+
+  const selections = variationGroups.map((group) =>
+    selectMatrixItems(matrix, group.selectedFeatures)
+  );
+
+  // Extract feature rows - items selected by at least one group
+  const groupIdsByItem = new Map<number, number[]>();
+  selections.forEach((selection, groupIndex) => {
+    for (const itemIdx of selection.indexes) {
+      const groupIds = groupIdsByItem.get(itemIdx) || [];
+      groupIds.push(groupIndex);
+      groupIdsByItem.set(itemIdx, groupIds);
+    }
+  });
+
+  const featureRows: FeatureRow[] = Array.from(groupIdsByItem.keys())
+    .sort((a, b) => a - b)
+    .map((itemIdx) => {
+      const { feature, item, rowIndex } = matrix.items[itemIdx];
+      const row = rawData[rowIndex];
+      const values: string[] = [];
+      const states: CellState[] = [];
+      for (let col = 0; col < columnCount; col++) {
+        values.push(String(row[startDataColIndex + col] || "").trim());
+        states.push(matrixCellState(matrix, itemIdx, col));
+      }
+      return {
+        feature,
+        item,
+        values,
+        states,
+        groupIds: groupIdsByItem.get(itemIdx)!,
+      };
+    });
+
+  // Each variation group partitions the columns independently
+  const labelStyle = config.labelStyle || "letters";
+  const groups = variationGroups.map((group, groupIndex) =>
+    partitionColumns(
+      matrix,
+      labelStyle,
+      group,
+      groupIndex,
+      selections[groupIndex]
+    )
+  );
+
+  // Pattern of every column, per group
+  const patternByColumn = groups.map((group) => {
+    const byColumn: VariationPattern[] = [];
+    for (const pattern of group.patterns) {
+      for (const col of pattern.columns) {
+        byColumn[columnLetterToIndex(col) - startDataColIndex] = pattern;
+      }
+    }
+    return byColumn;
+  });
+
+  const columnPatterns: AnalyzedColumn[] = [];
+  const columnMappings: VariationAnalysis["columnMappings"] = {};
+
+  for (let col = 0; col < columnCount; col++) {
+    const colIndex = startDataColIndex + col;
+    const columnLetter = indexToColumnLetter(colIndex);
+    const metadata = {} as Record<MetadataField, string>;
+    for (const { field } of METADATA_FIELDS) {
+      const rowNumber = metadataRows[field];
+      metadata[field] = rowNumber
+        ? String(rawData[rowNumber - 1]?.[colIndex] || "").trim()
+        : "";
+    }
+    // Fall back to the legacy grade row (two rows above startRow)
+    const gradeName = metadataRows.grade
+      ? metadata.grade
+      : String(rawData[startRowIndex - 2]?.[colIndex] || "").trim();
+    const variations = groups.map((group, groupIdx) => {
+      const entry = patternByColumn[groupIdx][col];
+      return {
+        groupId: group.id,
+        label: entry?.id || "?",
+        backgroundColor: entry?.color || "#f5f5f5",
+      };
+    });
+
+    columnPatterns.push({
+      columnLetter,
+      gradeName,
+      metadata,
+      variations,
+    });
+    columnMappings[columnLetter] = {
+      groupIds: variations.map((v) => v.groupId),
+      patterns: variations.map((v) => v.label),
+    };
+  }
+
+  return {
+    groups,
+    columnMappings,
+    headerRows,
+    metadataRows,
+    featureRows,
+    columnPatterns,
+  };
+}
@@ -0,0 +1,220 @@
+import { describe, expect, it } from "vitest";
+import {
+  anchorGrid,
+  detectDelimiter,
+  importSheet,
+  parseCellVocabulary,
+  parseDelimitedText,
+  parseMetadataRows,
+  readWorkbook,
+  sheetToGrid,
+} from "./workbookUtils";
+
+describe("parseDelimitedText", () => {
+  it("keeps delimiters, escaped quotes and line breaks inside quotes", () => {
+    const text = 'Feature,Note\n"A, B","say ""hi"""\n"two\nlines",x\n';
+
+    expect(parseDelimitedText(text, ",")).toEqual([
+      ["Feature", "Note"],
+      ["A, B", 'say "hi"'],
+      ["two\nlines", "x"],
+    ]);
+  });
+
+  it("splits CRLF and bare CR line endings", () => {
+    expect(parseDelimitedText("a,b\r\nc,d\re,f\r\n", ",")).toEqual([
+      ["a", "b"],
+      ["c", "d"],
+      ["e", "f"],
+    ]);
+  });
+
+  it("keeps empty lines and pads rows to the widest row", () => {
+    expect(parseDelimitedText("a;b;c\n\nd\n", ";")).toEqual([
+      ["a", "b", "c"],
+      ["", "", ""],
+      ["d", "", ""],
+    ]);
+  });
+
+  it("keeps a last line without a line break", () => {
+    expect(parseDelimitedText("a\tb\nc\t", "\t")).toEqual([
+      ["a", "b"],
+      ["c", ""],
+    ]);
+  });
+});
+
+describe("detectDelimiter", () => {
+  it("detects semicolons, tabs and pipes", () => {
+    expect(detectDelimiter("a;b;c\n1;2;3\n")).toBe(";");
+    expect(detectDelimiter("a\tb\n1\t2\n")).toBe("\t");
+    expect(detectDelimiter("a|b\n1|2\n")).toBe("|");
+  });
+
+  it("ignores delimiters inside quoted fields", () => {
+    // Decimal commas are quoted in semicolon files
+    expect(detectDelimiter('name;value\n"1,5";"2,5"\n"3,5";x\n')).toBe(";");
+  });
+
+  it("prefers the delimiter present on every line", () => {
+    expect(detectDelimiter("a,b,c;d\r\ne;f\r\ng;h\r\n")).toBe(";");
+  });
+
+  it("skips a title line without delimiters", () => {
+    const text = "Feature list 2024\nFeature;Item;X1;X2\nEngine;V6;O;-\n";
+
+    expect(detectDelimiter(text)).toBe(";");
+    expect(parseDelimitedText(text, detectDelimiter(text))[1]).toEqual([
+      "Feature",
+      "Item",
+      "X1",
+      "X2",
+    ]);
+  });
+
+  it("is not swayed by a comma in the title line", () => {
+    expect(detectDelimiter("Plant A, 2024\na;b;c\nd;e;f\n")).toBe(";");
+  });
+
+  it("falls back to commas for a single column", () => {
+    expect(detectDelimiter("a\nb\n")).toBe(",");
+  });
+});
+
+describe("readWorkbook with delimited text", () => {
+  it("reads semicolon CSV with a BOM into a sheet named after the file", () => {
+    const bytes = new TextEncoder().encode(
+      '\uFEFFFeature;Item;X1\r\nEngine;"V6; turbo";O\r\n'
+    );
+    const workbook = readWorkbook(bytes, "uploads/models.csv");
+
+    expect(workbook.SheetNames).toEqual(["models"]);
+    expect(sheetToGrid(workbook, "models")).toEqual([
+      ["Feature", "Item", "X1"],
+      ["Engine", "V6; turbo", "O"],
+    ]);
+  });
+
+  it("detects text by content when no file name is given", () => {
+    const bytes = new TextEncoder().encode("a\tb\nc\td\n");
+    const workbook = readWorkbook(bytes);
+
+    expect(sheetToGrid(workbook, workbook.SheetNames[0])).toEqual([
+      ["a", "b"],
+      ["c", "d"],
+    ]);
+  });
+});
+
+describe("anchorGrid", () => {
+  it("pads a pasted range so it lands on the anchor cell", () => {
+    expect(anchorGrid([["ENGINE", "O"]], "b3")).toEqual([
+      ["", "", ""],
+      ["", "", ""],
+      ["", "ENGINE", "O"],
+    ]);
+  });
+
+  it("leaves a grid anchored at A1 as pasted", () => {
+    const grid = [
+      ["ENGINE", "V6", "O"],
+      ["", "V8", "-"],
+    ];
+
+    expect(anchorGrid(grid, "A1")).toEqual(grid);
+  });
+
+  it("pads ragged rows to the widest row", () => {
+    expect(anchorGrid([["ENGINE", "V6", "O"], ["", "V8"], []], "C1")).toEqual(
+      [
+        ["", "", "ENGINE", "V6", "O"],
+        ["", "", "", "V8", ""],
+        ["", "", "", "", ""],
+      ]
+    );
+  });
+
+  it("rejects anything but a cell address", () => {
+    for (const address of ["", "3B", "A0", "A1:B2"]) {
+      expect(() => anchorGrid([["O"]], address)).toThrow(
+        expect.objectContaining({ code: "INVALID_LAYOUT" })
+      );
+    }
+  });
+});
+
+describe("option parsers", () => {
+  it("accepts a vocabulary of known cell states", () => {
+    expect(parseCellVocabulary({ X: "applies", "~": "optional" })).toEqual({
+      X: "applies",
+      "~": "optional",
+    });
+  });
+
+  it("names the option in vocabulary errors", () => {
+    expect(() => parseCellVocabulary(["O"], "--cell-vocabulary")).toThrow(
+      "--cell-vocabulary must be an object"
+    );
+    expect(() => parseCellVocabulary({ O: "yes" })).toThrow(
+      'cellVocabulary symbol "O" must map to one of'
+    );
+  });
+
+  it("reads metadata rows from numbers and numeric strings", () => {
+    expect(parseMetadataRows({ grade: 4, plant: " 1 ", model: "" })).toEqual({
+      grade: 4,
+      plant: 1,
+    });
+  });
+
+  it("rejects unknown fields and rows below 1", () => {
+    expect(() => parseMetadataRows({ trim: 2 })).toThrow(
+      'metadataRows field "trim" must be one of'
+    );
+    expect(() => parseMetadataRows({ grade: 0 })).toThrow(
+      'metadataRows field "grade" must be a positive integer'
+    );
+    expect(() => parseMetadataRows({ grade: 2.5 })).toThrow(
+      "must be a positive integer"
+    );
+  });
+});
+
+function featureItems(imported: ReturnType<typeof importSheet>) {
+  return imported.features.map((f) => [f.name, f.items.map((i) => i.name)]);
+}
+
+describe("importSheet", () => {
+  it("keeps the detected layout and its features", () => {
+    const imported = importSheet(
+      [
+        ["Feature", "Item", "X1", "X2"],
+        ["ENGINE", "V6", "O", "-"],
+        ["", "V8", "-", "O"],
+      ],
+      "F-List"
+    );
+
+    expect(imported.detectedLayout).toMatchObject({
+      featureColumn: "A",
+      itemColumn: "B",
+      startRow: 2,
+    });
+    expect(featureItems(imported)).toEqual([
+      ["ENGINE", ["V6", "V8"]],
+    ]);
+  });
+
+  it("falls back to columns M and N from row 19 without a layout", () => {
+    const grid = Array.from({ length: 20 }, () => Array(14).fill(""));
+    grid[18][12] = "ENGINE";
+    grid[18][13] = "V6";
+    const imported = importSheet(grid, "F-List");
+
+    expect(imported.detectedLayout).toBeNull();
+    expect(featureItems(imported)).toEqual([
+      ["ENGINE", ["V6"]],
+    ]);
+  });
+});
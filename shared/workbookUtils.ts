@@ -0,0 +1,581 @@
+/**
+ * Design Philosophy: Formal Minimal
+ * - Workbook parsing on ArrayBuffers
+ * - No browser or Node APIs, usable everywhere
+ * - Writing lives in workbookWriter, keeping ExcelJS out of readers
+ */
+
+import * as XLSX from "xlsx";
+import type {
+  CellState,
+  CellVocabulary,
+  DetectedLayout,
+  ImportedData,
+  LabelStyle,
+  MetadataField,
+  MetadataRows,
+  VariationAnalysis,
+  VariationGroupConfig,
+} from "./types";
+import { detectLayout } from "./layoutUtils";
+import {
+  analyzeVariations,
+  CELL_STATE_LABELS,
+  columnLetterToIndex,
+  extractFeatures,
+  METADATA_FIELDS,
+  parseCellAddress,
+} from "./variationUtils";
+
+export type WorkbookData = ArrayBuffer | Uint8Array;
+
+export type WorkbookErrorCode =
+  | "INVALID_WORKBOOK"
+  | "SHEET_NOT_FOUND"
+  | "EMPTY_SHEET"
+  | "INVALID_LAYOUT"
+  | "INVALID_GROUPS"
+  | "INVALID_OPTIONS";
+
+/**
+ * Error raised for unusable workbooks, sheets, layouts, options or group
+ * definitions
+ */
+export class WorkbookError extends Error {
+  constructor(
+    public code: WorkbookErrorCode,
+    message: string
+  ) {
+    super(message);
+    this.name = "WorkbookError";
+  }
+}
+
+const DELIMITER_CANDIDATES = [",", "\t", ";", "|"];
+
+/**
+ * Pick the delimiter that splits the first lines most consistently
+ * Lines without it, such as a title line, do not count against it
+ */
+export function detectDelimiter(text: string): string {
+  const lines = text
+    .split(/\r?\n/)
+    .filter((line) => line.trim())
+    .slice(0, 20);
+
+  let best = ",";
+  let bestScore = 0;
+  for (const delimiter of DELIMITER_CANDIDATES) {
+    // Number of lines per delimiter count, quoted fields left out
+    const linesByCount = new Map<number, number>();
+    for (const line of lines) {
+      const count = line.replace(/"[^"]*"/g, "").split(delimiter).length - 1;
+      if (count > 0) {
+        linesByCount.set(count, (linesByCount.get(count) || 0) + 1);
+      }
+    }
+    // Favor the most lines agreeing on one count, then the higher count
+    linesByCount.forEach((lineCount, count) => {
+      const score = lineCount * 1000 + count;
+      if (score > bestScore) {
+        best = delimiter;
+        bestScore = score;
+      }
+    });
+  }
+  return best;
+}
+
+/**
+ * Parse CSV/TSV text into a grid (quoted fields, "" escapes, CRLF)
+ * Rows are padded to the widest row
+ */
+export function parseDelimitedText(text: string, delimiter: string): any[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = "";
+  let quoted = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"' && field === "") {
+      quoted = true;
+    } else if (char === delimiter) {
+      row.push(field);
+      field = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && text[i + 1] === "\n") i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = "";
+    } else {
+      field += char;
+    }
+  }
+  if (field || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  const width = Math.max(0, ...rows.map((r) => r.length));
+  return rows.map((r) =>
+    r.length < width ? [...r, ...Array(width - r.length).fill("")] : r
+  );
+}
+
+/**
+ * Whether bytes hold delimited text rather than a binary workbook
+ * Decided by extension when a file name is known, else by content
+ */
+function isDelimitedText(bytes: Uint8Array, fileName?: string): boolean {
+  if (fileName) return /\.(csv|tsv|tab|txt)$/i.test(fileName);
+
+  const isZip = bytes[0] === 0x50 && bytes[1] === 0x4b; // xlsx, ods
+  const isOle = bytes[0] === 0xd0 && bytes[1] === 0xcf; // xls
+  if (isZip || isOle) return false;
+
+  const head = bytes.subarray(0, 1024);
+  if (head.includes(0)) return false;
+  return !new TextDecoder().decode(head).trimStart().startsWith("<");
+}
+
+/**
+ * Parse workbook bytes
+ * CSV/TSV input becomes a workbook with one pseudo-sheet
+ */
+export function readWorkbook(
+  data: WorkbookData,
+  fileName?: string
+): XLSX.WorkBook {
+  const bytes = data instanceof Uint8Array ? data : new Uint8Array(data);
+
+  if (isDelimitedText(bytes, fileName)) {
+    const text = new TextDecoder().decode(bytes).replace(/^\uFEFF/, "");
+    const grid = parseDelimitedText(text, detectDelimiter(text));
+    const workbook = XLSX.utils.book_new();
+    const sheetName = safeSheetName(
+      fileName?.replace(/^.*[\\/]/, "").replace(/\.[^.]+$/, "") || "Sheet1",
+      new Set()
+    );
+    XLSX.utils.book_append_sheet(
+      workbook,
+      XLSX.utils.aoa_to_sheet(grid),
+      sheetName
+    );
+    return workbook;
+  }
+
+  let workbook: XLSX.WorkBook;
+  try {
+    workbook = XLSX.read(bytes, { type: "array" });
+  } catch (error) {
+    throw new WorkbookError(
+      "INVALID_WORKBOOK",
+      `Failed to parse Excel file: ${error instanceof Error ? error.message : "Unknown error"}`
+    );
+  }
+
+  if (!workbook.SheetNames || workbook.SheetNames.length === 0) {
+    throw new WorkbookError("INVALID_WORKBOOK", "No sheets found in workbook");
+  }
+
+  return workbook;
+}
+
+/**
+ * Convert one worksheet into a grid of cell values
+ */
+export function sheetToGrid(
+  workbook: XLSX.WorkBook,
+  sheetName: string
+): any[][] {
+  if (!workbook.SheetNames.includes(sheetName)) {
+    throw new WorkbookError("SHEET_NOT_FOUND", `Sheet "${sheetName}" not found`);
+  }
+
+  const grid = XLSX.utils.sheet_to_json(workbook.Sheets[sheetName], {
+    header: 1,
+    defval: "",
+  }) as any[][];
+
+  if (!grid || grid.length === 0) {
+    throw new WorkbookError("EMPTY_SHEET", "Sheet is empty");
+  }
+
+  return grid;
+}
+
+/**
+ * Place a pasted grid so its top-left cell lands on the given address
+ * Keeps column letters and row numbers matching the source sheet
+ */
+export function anchorGrid(grid: any[][], address: string): any[][] {
+  const anchor = parseCellAddress(address);
+  if (!anchor) {
+    throw new WorkbookError(
+      "INVALID_LAYOUT",
+      `"${address}" is not a cell address like A1`
+    );
+  }
+
+  const width = anchor.column + Math.max(0, ...grid.map((row) => row.length));
+  const pad = (row: any[]) => {
+    const padded = [...Array(anchor.column).fill(""), ...row];
+    return [...padded, ...Array(width - padded.length).fill("")];
+  };
+
+  return [
+    ...Array.from({ length: anchor.row }, () => pad([])),
+    ...grid.map(pad),
+  ];
+}
+
+/**
+ * Build imported data for a grid using the detected layout
+ */
+export function importSheet(rawData: any[][], sheetName: string): ImportedData {
+  const detectedLayout = detectLayout(rawData);
+  const features = extractFeatures(rawData, {
+    featureColumn: detectedLayout?.featureColumn || "M",
+    itemColumn: detectedLayout?.itemColumn || "N",
+    startRow: detectedLayout?.startRow || 19,
+  });
+
+  return {
+    rawData,
+    headers: rawData[0] || [],
+    features,
+    sheetName,
+    detectedLayout,
+  };
+}
+
+export interface StyledSheet {
+  name: string;
+  data: any[][];
+  fills?: (string | undefined)[][]; // Hex background per cell, same shape as data
+  boldRows?: number[]; // 0-based row indexes
+  frozen?: { rows: number; columns: number };
+  autoFilter?: {
+    fromRow: number;
+    toRow: number;
+    fromColumn: number;
+    toColumn: number;
+  }; // 0-based, inclusive
+  columnWidths?: number[];
+}
+
+export const MAX_SHEET_NAME_LENGTH = 31;
+
+/**
+ * Make a name valid and unique as an Excel sheet name
+ * Replaces []:*?/\ with "-", drops edge quotes, truncates to 31
+ * characters and numbers duplicates ("A (2)")
+ */
+export function safeSheetName(name: string, usedNames: Set<string>): string {
+  const base =
+    name
+      .replace(/[\[\]:*?/\\]/g, "-")
+      .replace(/^'+|'+$/g, "")
+      .trim() || "Sheet";
+
+  let candidate = base.slice(0, MAX_SHEET_NAME_LENGTH);
+  for (let n = 2; usedNames.has(candidate.toLowerCase()); n++) {
+    const suffix = ` (${n})`;
+    candidate = `${base.slice(0, MAX_SHEET_NAME_LENGTH - suffix.length)}${suffix}`;
+  }
+
+  usedNames.add(candidate.toLowerCase());
+  return candidate;
+}
+
+/**
+ * Serialize rows as CSV (or TSV with a tab delimiter)
+ */
+export function toDelimitedText(rows: any[][], delimiter: string = ","): string {
+  return rows
+    .map((row) =>
+      row
+        .map((value) => {
+          const text = String(value ?? "");
+          return /["\r\n]/.test(text) || text.includes(delimiter)
+            ? `"${text.replace(/"/g, '""')}"`
+            : text;
+        })
+        .join(delimiter)
+    )
+    .join("\r\n");
+}
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+/**
+ * Serialize a styled sheet as an HTML table, keeping fills and bold rows
+ * Pastes into Excel, Outlook and Word with colors intact
+ */
+export function sheetToHtml(sheet: StyledSheet): string {
+  const boldRows = new Set(sheet.boldRows);
+  const rows = sheet.data.map((row, rowIdx) => {
+    const cells = row.map((value, colIdx) => {
+      const styles: string[] = [];
+      const fill = sheet.fills?.[rowIdx]?.[colIdx];
+      if (fill) styles.push(`background-color:${fill}`);
+      if (boldRows.has(rowIdx)) styles.push("font-weight:bold");
+      const style = styles.length ? ` style="${styles.join(";")}"` : "";
+      return `<td${style}>${escapeHtml(String(value ?? ""))}</td>`;
+    });
+    return `<tr>${cells.join("")}</tr>`;
+  });
+
+  return `<table border="1" style="border-collapse:collapse">${rows.join("")}</table>`;
+}
+
+export type SheetLayoutSettings = Omit<DetectedLayout, "confidence">;
+
+/**
+ * Validate a layout against the grid it will be applied to
+ */
+export function validateLayout(
+  rawData: any[][],
+  layout: SheetLayoutSettings
+): void {
+  const columnPattern = /^[A-Z]{1,3}$/;
+  for (const key of ["featureColumn", "itemColumn", "startDataColumn"] as const) {
+    if (!columnPattern.test(layout[key] || "")) {
+      throw new WorkbookError(
+        "INVALID_LAYOUT",
+        `${key} must be a column letter, got "${layout[key]}"`
+      );
+    }
+  }
+
+  if (!Number.isInteger(layout.startRow) || layout.startRow < 1) {
+    throw new WorkbookError(
+      "INVALID_LAYOUT",
+      `startRow must be a positive integer, got "${layout.startRow}"`
+    );
+  }
+  if (layout.startRow > rawData.length) {
+    throw new WorkbookError(
+      "INVALID_LAYOUT",
+      `startRow ${layout.startRow} is beyond the last row (${rawData.length})`
+    );
+  }
+
+  const dataIndex = columnLetterToIndex(layout.startDataColumn);
+  if (
+    columnLetterToIndex(layout.featureColumn) >= dataIndex ||
+    columnLetterToIndex(layout.itemColumn) >= dataIndex
+  ) {
+    throw new WorkbookError(
+      "INVALID_LAYOUT",
+      "Feature and item columns must be left of the data start column"
+    );
+  }
+}
+
+/**
+ * Validate variation group definitions from untrusted JSON
+ */
+export function parseVariationGroups(value: unknown): VariationGroupConfig[] {
+  if (!Array.isArray(value) || value.length === 0) {
+    throw new WorkbookError(
+      "INVALID_GROUPS",
+      "Variation groups must be a non-empty array"
+    );
+  }
+
+  return value.map((group, index) => {
+    const position = `Variation group ${index + 1}`;
+    if (!group || typeof group !== "object") {
+      throw new WorkbookError("INVALID_GROUPS", `${position} must be an object`);
+    }
+
+    const { id, name, selectedFeatures } = group as Record<string, unknown>;
+    if (
+      !selectedFeatures ||
+      typeof selectedFeatures !== "object" ||
+      Array.isArray(selectedFeatures)
+    ) {
+      throw new WorkbookError(
+        "INVALID_GROUPS",
+        `${position}: selectedFeatures must map feature names to item lists`
+      );
+    }
+
+    const features: VariationGroupConfig["selectedFeatures"] = {};
+    for (const [feature, items] of Object.entries(selectedFeatures)) {
+      if (!Array.isArray(items) || items.some((i) => typeof i !== "string")) {
+        throw new WorkbookError(
+          "INVALID_GROUPS",
+          `${position}: items of "${feature}" must be an array of strings`
+        );
+      }
+      features[feature] = items;
+    }
+    if (Object.keys(features).length === 0) {
+      throw new WorkbookError(
+        "INVALID_GROUPS",
+        `${position} must select at least one feature`
+      );
+    }
+
+    return {
+      id: typeof id === "string" && id ? id : `group-${index + 1}`,
+      name: typeof name === "string" && name ? name : `Variation ${index + 1}`,
+      selectedFeatures: features,
+    };
+  });
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Validate a cell vocabulary from untrusted JSON
+ * `name` is the option as the caller knows it, used in messages
+ */
+export function parseCellVocabulary(
+  value: unknown,
+  name: string = "cellVocabulary"
+): CellVocabulary {
+  if (!isPlainObject(value)) {
+    throw new WorkbookError(
+      "INVALID_OPTIONS",
+      `${name} must be an object mapping symbols to cell states`
+    );
+  }
+
+  const states = Object.keys(CELL_STATE_LABELS);
+  for (const [symbol, state] of Object.entries(value)) {
+    if (typeof state !== "string" || !states.includes(state)) {
+      throw new WorkbookError(
+        "INVALID_OPTIONS",
+        `${name} symbol "${symbol}" must map to one of ${states.join(", ")}`
+      );
+    }
+  }
+  return value as Record<string, CellState>;
+}
+
+/**
+ * Validate metadata rows from untrusted JSON: fields mapped to 1-based rows
+ * Numeric strings are accepted, as form fields and query values are text
+ */
+export function parseMetadataRows(
+  value: unknown,
+  name: string = "metadataRows"
+): MetadataRows {
+  if (!isPlainObject(value)) {
+    throw new WorkbookError(
+      "INVALID_OPTIONS",
+      `${name} must be an object mapping fields to row numbers`
+    );
+  }
+
+  const fields = METADATA_FIELDS.map(({ field }) => field as string);
+  const metadataRows: MetadataRows = {};
+  for (const [field, row] of Object.entries(value)) {
+    if (!fields.includes(field)) {
+      throw new WorkbookError(
+        "INVALID_OPTIONS",
+        `${name} field "${field}" must be one of ${fields.join(", ")}`
+      );
+    }
+    if (row === undefined || row === "") continue;
+    const number = typeof row === "string" ? Number(row.trim()) : row;
+    if (typeof number !== "number" || !Number.isInteger(number) || number < 1) {
+      throw new WorkbookError(
+        "INVALID_OPTIONS",
+        `${name} field "${field}" must be a positive integer, got ${JSON.stringify(row)}`
+      );
+    }
+    metadataRows[field as MetadataField] = number;
+  }
+  return metadataRows;
+}
+
+export interface WorkbookAnalysisOptions {
+  fileName?: string; // Used to recognize CSV/TSV input
+  sheetName?: string; // Defaults to "F-List", else the first sheet
+  layout?: Partial<SheetLayoutSettings>; // Missing settings are detected
+  cellVocabulary?: CellVocabulary;
+  labelStyle?: LabelStyle;
+  metadataRows?: MetadataRows;
+  groups: VariationGroupConfig[];
+}
+
+export interface WorkbookAnalysis {
+  sheetName: string;
+  layout: SheetLayoutSettings;
+  analysis: VariationAnalysis;
+}
+
+/**
+ * Parse a workbook and analyze one sheet end to end
+ */
+export function analyzeWorkbook(
+  data: WorkbookData,
+  options: WorkbookAnalysisOptions
+): WorkbookAnalysis {
+  const workbook = readWorkbook(data, options.fileName);
+  const sheetName =
+    options.sheetName ||
+    (workbook.SheetNames.includes("F-List")
+      ? "F-List"
+      : workbook.SheetNames[0]);
+  const rawData = sheetToGrid(workbook, sheetName);
+
+  const detected = detectLayout(rawData, options.cellVocabulary);
+  // Given settings are kept as is, even when invalid, so validation reports them
+  const layout = {
+    featureColumn: options.layout?.featureColumn ?? detected?.featureColumn,
+    itemColumn: options.layout?.itemColumn ?? detected?.itemColumn,
+    startRow: options.layout?.startRow ?? detected?.startRow,
+    startDataColumn:
+      options.layout?.startDataColumn ?? detected?.startDataColumn,
+  };
+  if (
+    layout.featureColumn === undefined ||
+    layout.itemColumn === undefined ||
+    layout.startRow === undefined ||
+    layout.startDataColumn === undefined
+  ) {
+    throw new WorkbookError(
+      "INVALID_LAYOUT",
+      "Could not detect the sheet layout; provide featureColumn, itemColumn, startRow and startDataColumn"
+    );
+  }
+  const resolvedLayout = layout as SheetLayoutSettings;
+  validateLayout(rawData, resolvedLayout);
+
+  const analysis = analyzeVariations(
+    rawData,
+    {
+      ...resolvedLayout,
+      cellVocabulary: options.cellVocabulary,
+      labelStyle: options.labelStyle,
+      metadataRows: options.metadataRows,
+    },
+    options.groups
+  );
+
+  return { sheetName, layout: resolvedLayout, analysis };
+}
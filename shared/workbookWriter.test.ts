@@ -0,0 +1,180 @@
+import ExcelJS from "exceljs";
+import { describe, expect, it } from "vitest";
+import type { VariationGroupConfig } from "./types";
+import { analyzeVariations } from "./variationUtils";
+import { writeVariationLabels, type WriteBackOptions } from "./workbookWriter";
+
+// Title rows 1-3 above the table header in row 4, features from row 5
+const ROWS = [
+  ["PLANT", "", "P1", "P1", "P2", "P2"],
+  [],
+  [],
+  ["Feature", "Item"],
+  ["ENGINE", "V6", "O", "O", "-", "-"],
+  ["", "V8", "-", "-", "O", "O"],
+];
+
+const ENGINE: VariationGroupConfig = {
+  id: "engine",
+  name: "Engine",
+  selectedFeatures: { ENGINE: ["V6", "V8"] },
+};
+const V8_ONLY: VariationGroupConfig = {
+  id: "v8",
+  name: "V8",
+  selectedFeatures: { ENGINE: ["V8"] },
+};
+
+// Label row after the title: blank item column, then one variation per grade
+const LABELS = ["", "A", "A", "B", "B"];
+
+const OPTIONS: WriteBackOptions = {
+  sheetName: "F-List",
+  featureColumn: "A",
+  startRow: 5,
+};
+
+function analyze(rows: any[][], groups = [ENGINE]) {
+  return analyzeVariations(
+    rows.map((row) => [...row]),
+    { featureColumn: "A", itemColumn: "B", startRow: 5, startDataColumn: "C" },
+    groups
+  );
+}
+
+/**
+ * Workbook with the rows in "F-List", a formula next to the data and
+ * a second sheet referring into it
+ */
+async function createWorkbook(rows: any[][] = ROWS) {
+  const workbook = new ExcelJS.Workbook();
+  const sheet = workbook.addWorksheet("F-List");
+  rows.forEach((row, i) => {
+    row.forEach((value, j) => {
+      if (value !== "") sheet.getCell(i + 1, j + 1).value = value;
+    });
+  });
+  sheet.getCell("G5").value = { formula: 'COUNTIF(C5:F5,"O")' } as any;
+  workbook.addWorksheet("Notes").getCell("A1").value = {
+    formula: "'F-List'!B6",
+  } as any;
+  return (await workbook.xlsx.writeBuffer()) as ArrayBuffer;
+}
+
+async function writeLabels(
+  rows: any[][],
+  options: Partial<WriteBackOptions> = {},
+  groups = [ENGINE]
+) {
+  const output = await writeVariationLabels(
+    await createWorkbook(rows),
+    analyze(rows, groups),
+    { ...OPTIONS, ...options }
+  );
+  const workbook = new ExcelJS.Workbook();
+  await workbook.xlsx.load(output);
+  return workbook;
+}
+
+function rowValues(workbook: ExcelJS.Workbook, rowNumber: number) {
+  const row = workbook.getWorksheet("F-List")!.getRow(rowNumber);
+  return [1, 2, 3, 4, 5, 6].map((col) => row.getCell(col).value ?? "");
+}
+
+describe("writeVariationLabels", () => {
+  it("fills the nearest empty row above the data", async () => {
+    const workbook = await writeLabels(ROWS);
+
+    expect(rowValues(workbook, 3)).toEqual(["Variation", ...LABELS]);
+    expect(rowValues(workbook, 2)).toEqual(["", "", "", "", "", ""]);
+  });
+
+  it("keeps rows, formulas and references in place", async () => {
+    const workbook = await writeLabels(ROWS);
+    const sheet = workbook.getWorksheet("F-List")!;
+
+    expect(rowValues(workbook, 5)).toEqual(ROWS[4]);
+    expect(sheet.getCell("G5").value).toMatchObject({
+      formula: 'COUNTIF(C5:F5,"O")',
+    });
+    expect(workbook.getWorksheet("Notes")!.getCell("A1").value).toMatchObject(
+      { formula: "'F-List'!B6" }
+    );
+  });
+
+  it("reuses a row already titled for the group", async () => {
+    const titled = ROWS.map((row, i) => (i === 1 ? ["variation"] : row));
+    const workbook = await writeLabels(titled);
+
+    expect(rowValues(workbook, 2)).toEqual(["Variation", ...LABELS]);
+    expect(rowValues(workbook, 3)).toEqual(["", "", "", "", "", ""]);
+  });
+
+  it("titles one row per group when there are several", async () => {
+    const workbook = await writeLabels(ROWS, {}, [ENGINE, V8_ONLY]);
+
+    expect(rowValues(workbook, 3)).toEqual(["Variation (Engine)", ...LABELS]);
+    expect(rowValues(workbook, 2)).toEqual(["Variation (V8)", ...LABELS]);
+  });
+
+  it("writes into picked rows with an empty or Variation title", async () => {
+    const titled = ROWS.map((row, i) => (i === 1 ? ["Variation (old)"] : row));
+    const workbook = await writeLabels(titled, { labelRows: [2] });
+
+    expect(rowValues(workbook, 2)).toEqual(["Variation", ...LABELS]);
+  });
+
+  it("fills label cells with the variation colors when asked", async () => {
+    const color = analyze(ROWS).groups[0].patterns[1].color;
+    const workbook = await writeLabels(ROWS, { fillColors: true });
+    const cell = workbook.getWorksheet("F-List")!.getCell("E3");
+
+    expect(cell.fill).toMatchObject({
+      type: "pattern",
+      fgColor: { argb: `FF${color.slice(1).toUpperCase()}` },
+    });
+  });
+
+  it("rejects picked rows it must not overwrite", async () => {
+    await expect(writeLabels(ROWS, { labelRows: [1] })).rejects.toMatchObject({
+      code: "INVALID_LAYOUT",
+      message:
+        'Label row 1 already holds "PLANT" in column A; pick another row',
+    });
+    await expect(writeLabels(ROWS, { labelRows: [5] })).rejects.toMatchObject({
+      code: "INVALID_LAYOUT",
+      message:
+        'Label row 5 for "Variation" must be above the first feature row (5)',
+    });
+    await expect(
+      writeLabels(ROWS, { labelRows: [2, 2] }, [ENGINE, V8_ONLY])
+    ).rejects.toMatchObject({
+      code: "INVALID_LAYOUT",
+      message: "Label row 2 is picked for more than one group",
+    });
+  });
+
+  it("fails when no titled or empty row is left", async () => {
+    const full = ROWS.map((row, i) => (i === 1 || i === 2 ? ["Note"] : row));
+
+    await expect(writeLabels(full)).rejects.toMatchObject({
+      code: "INVALID_LAYOUT",
+      message:
+        'No row titled "Variation" or empty row above row 5; pick a label row',
+    });
+  });
+
+  it("reports unreadable workbooks and missing sheets", async () => {
+    const analysis = analyze(ROWS);
+
+    await expect(
+      writeVariationLabels(new Uint8Array([1, 2, 3]), analysis, OPTIONS)
+    ).rejects.toMatchObject({ code: "INVALID_WORKBOOK" });
+    await expect(
+      writeVariationLabels(await createWorkbook(), analysis, {
+        ...OPTIONS,
+        sheetName: "Missing",
+      })
+    ).rejects.toMatchObject({ code: "SHEET_NOT_FOUND" });
+  });
+});
@@ -0,0 +1,220 @@
+/**
+ * Design Philosophy: Formal Minimal
+ * - Styled xlsx writing and label write-back with ExcelJS
+ * - Separate from workbookUtils so parsing never loads ExcelJS
+ */
+
+import ExcelJS from "exceljs";
+import type { VariationAnalysis } from "./types";
+import { columnLetterToIndex } from "./variationUtils";
+import {
+  WorkbookError,
+  type StyledSheet,
+  type WorkbookData,
+} from "./workbookUtils";
+
+function toArgb(hex: string): string {
+  return `FF${hex.replace("#", "").toUpperCase()}`;
+}
+
+/**
+ * Write sheets of rows into xlsx bytes, keeping fills, bold rows,
+ * frozen panes and filters
+ */
+export async function writeWorkbook(
+  sheets: StyledSheet[]
+): Promise<ArrayBuffer> {
+  const workbook = new ExcelJS.Workbook();
+
+  for (const sheet of sheets) {
+    const worksheet = workbook.addWorksheet(sheet.name, {
+      views: sheet.frozen
+        ? [
+            {
+              state: "frozen",
+              xSplit: sheet.frozen.columns,
+              ySplit: sheet.frozen.rows,
+            },
+          ]
+        : undefined,
+    });
+
+    sheet.data.forEach((row) => worksheet.addRow(row));
+
+    sheet.fills?.forEach((rowFills, rowIdx) => {
+      rowFills.forEach((color, colIdx) => {
+        if (!color) return;
+        worksheet.getCell(rowIdx + 1, colIdx + 1).fill = {
+          type: "pattern",
+          pattern: "solid",
+          fgColor: { argb: toArgb(color) },
+        };
+      });
+    });
+
+    sheet.boldRows?.forEach((rowIdx) => {
+      worksheet.getRow(rowIdx + 1).font = { bold: true };
+    });
+
+    sheet.columnWidths?.forEach((width, colIdx) => {
+      worksheet.getColumn(colIdx + 1).width = width;
+    });
+
+    if (sheet.autoFilter) {
+      worksheet.autoFilter = {
+        from: {
+          row: sheet.autoFilter.fromRow + 1,
+          column: sheet.autoFilter.fromColumn + 1,
+        },
+        to: {
+          row: sheet.autoFilter.toRow + 1,
+          column: sheet.autoFilter.toColumn + 1,
+        },
+      };
+    }
+  }
+
+  const buffer = await workbook.xlsx.writeBuffer();
+  return buffer as ArrayBuffer;
+}
+
+export interface WriteBackOptions {
+  sheetName: string;
+  featureColumn: string; // Receives the "Variation" row titles
+  startRow: number; // Labels go into rows above this row
+  labelRows?: number[]; // 1-based row per group, picked by the user
+  fillColors?: boolean;
+}
+
+/**
+ * Whether a sheet row holds no values at all
+ */
+function isEmptyRow(worksheet: ExcelJS.Worksheet, rowNumber: number): boolean {
+  let empty = true;
+  worksheet.getRow(rowNumber).eachCell((cell) => {
+    if (cell.text.trim() !== "") empty = false;
+  });
+  return empty;
+}
+
+/**
+ * Write variation label rows into the original workbook
+ * Rows are never inserted, so formulas and references elsewhere stay valid:
+ * each group uses the row picked for it, else a row already titled for it,
+ * else the nearest empty row above the data
+ * A picked row must not hold another title in the feature column
+ */
+export async function writeVariationLabels(
+  data: WorkbookData,
+  analysis: VariationAnalysis,
+  options: WriteBackOptions
+): Promise<ArrayBuffer> {
+  const workbook = new ExcelJS.Workbook();
+  try {
+    await workbook.xlsx.load(data as ArrayBuffer);
+  } catch (error) {
+    throw new WorkbookError(
+      "INVALID_WORKBOOK",
+      `Failed to open workbook for writing: ${error instanceof Error ? error.message : "Unknown error"}`
+    );
+  }
+
+  const worksheet = workbook.getWorksheet(options.sheetName);
+  if (!worksheet) {
+    throw new WorkbookError(
+      "SHEET_NOT_FOUND",
+      `Sheet "${options.sheetName}" not found`
+    );
+  }
+
+  const titleColumn = columnLetterToIndex(options.featureColumn) + 1;
+  const titles = analysis.groups.map((group) =>
+    analysis.groups.length === 1 ? "Variation" : `Variation (${group.name})`
+  );
+
+  // Resolve every target row before writing anything
+  const usedRows = new Set<number>();
+  const targetRows = titles.map((title, groupIdx) => {
+    const picked = options.labelRows?.[groupIdx];
+    if (picked !== undefined) {
+      if (
+        !Number.isInteger(picked) ||
+        picked < 1 ||
+        picked >= options.startRow
+      ) {
+        throw new WorkbookError(
+          "INVALID_LAYOUT",
+          `Label row ${picked} for "${title}" must be above the first feature row (${options.startRow})`
+        );
+      }
+      if (usedRows.has(picked)) {
+        throw new WorkbookError(
+          "INVALID_LAYOUT",
+          `Label row ${picked} is picked for more than one group`
+        );
+      }
+      // Only an empty or earlier "Variation…" title may be replaced
+      const text = worksheet.getCell(picked, titleColumn).text.trim();
+      if (text && !text.toLowerCase().startsWith("variation")) {
+        throw new WorkbookError(
+          "INVALID_LAYOUT",
+          `Label row ${picked} already holds "${text}" in column ${options.featureColumn}; pick another row`
+        );
+      }
+      usedRows.add(picked);
+      return picked;
+    }
+
+    for (let r = 1; r < options.startRow; r++) {
+      const text = worksheet.getCell(r, titleColumn).text.trim();
+      if (!usedRows.has(r) && text.toLowerCase() === title.toLowerCase()) {
+        usedRows.add(r);
+        return r;
+      }
+    }
+    return 0;
+  });
+
+  titles.forEach((title, groupIdx) => {
+    if (targetRows[groupIdx]) return;
+    for (let r = options.startRow - 1; r >= 1; r--) {
+      if (!usedRows.has(r) && isEmptyRow(worksheet, r)) {
+        usedRows.add(r);
+        targetRows[groupIdx] = r;
+        return;
+      }
+    }
+    throw new WorkbookError(
+      "INVALID_LAYOUT",
+      `No row titled "${title}" or empty row above row ${options.startRow}; pick a label row`
+    );
+  });
+
+  titles.forEach((title, groupIdx) => {
+    const rowNumber = targetRows[groupIdx];
+
+    worksheet.getCell(rowNumber, titleColumn).value = title;
+    worksheet.getCell(rowNumber, titleColumn).font = { bold: true };
+
+    for (const cp of analysis.columnPatterns) {
+      const variation = cp.variations[groupIdx];
+      const cell = worksheet.getCell(
+        rowNumber,
+        columnLetterToIndex(cp.columnLetter) + 1
+      );
+      cell.value = variation?.label || null;
+      cell.font = { bold: true };
+      cell.alignment = { horizontal: "center" };
+      if (options.fillColors && variation) {
+        cell.fill = {
+          type: "pattern",
+          pattern: "solid",
+          fgColor: { argb: toArgb(variation.backgroundColor) },
+        };
+      }
+    }
+  });
+
+  const buffer = await workbook.xlsx.writeBuffer();
+  return buffer as ArrayBuffer;
+}